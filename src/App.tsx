@@ -1,18 +1,107 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
 import './App.css'
 import type {
+  CompareMode,
+  CropRect,
   Dimensions,
+  EdgeFillSettings,
   ExportFormat,
+  ExportProgress,
   ExportQuality,
+  GifDithering,
   ImageAdjustments,
+  InbetweenSettings,
   LoadedImage,
+  LoupeSettings,
+  LoupeView,
+  OutputSizeSettings,
+  PlaybackSequence,
+  PngCompression,
   Point,
+  SequencePreset,
+  SequenceStep,
+  StereoExportSettings,
 } from './types.ts'
+import { AlignmentPanel } from './components/AlignmentPanel.tsx'
+import { EdgeFillControls } from './components/EdgeFillControls.tsx'
+import { ExportProgressBar } from './components/ExportProgressBar.tsx'
 import { FrameCarousel } from './components/FrameCarousel.tsx'
+import { HistoryPanel } from './components/HistoryPanel.tsx'
 import { ImageControls } from './components/ImageControls.tsx'
 import { ImageViewport } from './components/ImageViewport.tsx'
+import { InbetweenControls } from './components/InbetweenControls.tsx'
+import { OutputSizeControls } from './components/OutputSizeControls.tsx'
+import { SequenceEditor } from './components/SequenceEditor.tsx'
+import { ControlPointsPanel } from './components/ControlPointsPanel.tsx'
+import { ShortcutHelp } from './components/ShortcutHelp.tsx'
+import { StereoExportPanel } from './components/StereoExportPanel.tsx'
+import { VideoFrameExtractor } from './components/VideoFrameExtractor.tsx'
 import { WigglePreview } from './components/WigglePreview.tsx'
-import { generateFrames, makeGif, makeMp4 } from './lib/rendering.ts'
+import {
+  dataUrlToBlob,
+  ensureImageElement,
+  generateFrames,
+  generateInbetweenFrames,
+  getExportRatio,
+  makeApng,
+  makeGif,
+  makeMp4,
+  makeWebm,
+  makeWebp,
+} from './lib/rendering.ts'
+import { autoAlignFrames } from './lib/alignment.ts'
+import { clampCropPosition, getCropStage } from './lib/crop.ts'
+import {
+  fitCropToArea,
+  getCoveredArea,
+  getCoveredCropArea,
+} from './lib/coverage.ts'
+import { resolveOutputSize } from './lib/resample.ts'
+import { MIN_FRAME_SCALE } from './lib/frameGesture.ts'
+import { solveControlPoints } from './lib/controlPoints.ts'
+import type { FrameTransform } from './lib/frameGesture.ts'
+import {
+  MAX_LOUPE_ZOOM,
+  MIN_LOUPE_ZOOM,
+  clampLoupeZoom,
+} from './lib/loupe.ts'
+import { makeStereoImage } from './lib/stereo.ts'
+import {
+  NUDGE_PRECISION,
+  getShortcutAction,
+  isShortcutBlocked,
+  isTextEntryTarget,
+} from './lib/shortcuts.ts'
+import type { NudgeKey } from './lib/shortcuts.ts'
+import { NEUTRAL_TONE } from './lib/tone.ts'
+import { autoMatchTone } from './lib/toneMatch.ts'
+import { isPossibleMpo, splitMpo } from './lib/mpo.ts'
+import { readImageFile } from './lib/exif.ts'
+import type { ImportedImage } from './lib/exif.ts'
+import {
+  arrangeFrames,
+  expandInbetweenSteps,
+  getInbetweenKey,
+  getInbetweenPairs,
+  resolveSequenceSteps,
+} from './lib/sequence.ts'
+import {
+  PROJECT_FILE_EXTENSION,
+  exportProject,
+  importProject,
+} from './lib/project.ts'
+import type { ProjectSnapshot } from './lib/project.ts'
+import { clearSession, loadSession, saveSession } from './lib/sessionStore.ts'
+import type { StoredSession } from './lib/sessionStore.ts'
+import {
+  collectHistoryObjectUrls,
+  createHistory,
+  pushHistory,
+  stepHistory,
+} from './lib/history.ts'
+import type { EditorDocument, HistoryState } from './lib/history.ts'
+import type { FrameAlignment } from './lib/alignment.ts'
 
 const clamp = (value: number, min: number, max: number) =>
   Math.min(max, Math.max(min, value))
@@ -22,10 +111,19 @@ const MIN_CROP_SIZE = 50
 const MAX_CROP_SIZE = 4096
 const CROSSHAIR_DEFAULT_ALPHA = 0.5
 const DEFAULT_REFERENCE_OPACITY = 0.35
+const DEFAULT_LOUPE: LoupeSettings = {
+  enabled: false,
+  zoom: 6,
+  view: 'overlay',
+}
+const AUTOSAVE_DELAY_MS = 1000
+const AUTO_ALIGN_LABEL = 'Auto-align'
 
-const DEFAULT_CROP: Dimensions = {
+const DEFAULT_CROP: CropRect = {
   width: 640,
   height: 480,
+  x: 0,
+  y: 0,
 }
 
 const DEFAULT_CROSSHAIR: Point = {
@@ -47,17 +145,89 @@ const PRESET_SIZES: Array<{ id: string; label: string; width: number; height: nu
   { id: 'reel', label: 'Reel · 1080 × 1350', width: 1080, height: 1350 },
 ]
 
-const EXPORT_FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = [
-  { value: 'gif', label: 'GIF' },
-  { value: 'mp4', label: 'MP4' },
+const EXPORT_FORMAT_OPTIONS: Array<{
+  value: ExportFormat
+  label: string
+  extension: string
+  isVideo: boolean
+}> = [
+  { value: 'gif', label: 'GIF', extension: 'gif', isVideo: false },
+  { value: 'apng', label: 'APNG', extension: 'png', isVideo: false },
+  { value: 'webp', label: 'WebP', extension: 'webp', isVideo: false },
+  { value: 'mp4', label: 'MP4', extension: 'mp4', isVideo: true },
+  { value: 'webm', label: 'WebM', extension: 'webm', isVideo: true },
+]
+
+const PNG_COMPRESSION_LABELS: Record<PngCompression, string> = {
+  fast: 'Fast',
+  balanced: 'Balanced',
+  smallest: 'Smallest file',
+}
+
+const COMPARE_MODE_OPTIONS: Array<{ value: CompareMode; label: string }> = [
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'checkerboard', label: 'Checkerboard' },
+  { value: 'split', label: 'Split' },
+  { value: 'flicker', label: 'Flicker' },
+  { value: 'onion', label: 'Onion skin' },
+]
+
+const LOUPE_VIEW_OPTIONS: Array<{ value: LoupeView; label: string }> = [
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'difference', label: 'Difference' },
 ]
 
+const DITHERING_OPTIONS: Array<{ value: GifDithering; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { value: 'bayer', label: 'Ordered (Bayer)' },
+]
+
+const MAX_LOOP_COUNT = 100
+
+const DEFAULT_OUTPUT_SIZE: OutputSizeSettings = {
+  mode: 'scale',
+  scale: 1,
+  longEdge: 1080,
+  width: 1080,
+  height: 1080,
+  lockAspect: true,
+  sharpen: false,
+}
+
+const DEFAULT_EDGE_FILL: EdgeFillSettings = { mode: 'none', color: '#000000' }
+
+const DEFAULT_STEREO_SETTINGS: StereoExportSettings = {
+  layout: 'anaglyph-dubois',
+  format: 'png',
+}
+
+const DEFAULT_INBETWEENS: InbetweenSettings = { count: 0, mode: 'flow' }
+
+// The preview plays in-betweens rendered at this long edge; exports and
+// baking render them at full size.
+const PREVIEW_INBETWEEN_SIZE: OutputSizeSettings = {
+  ...DEFAULT_OUTPUT_SIZE,
+  mode: 'long-edge',
+  longEdge: 480,
+}
+const PREVIEW_INBETWEEN_DELAY_MS = 300
+
 interface ExportResult {
   url: string
   format: ExportFormat
   fileName: string
 }
 
+const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+  offsetX: 0,
+  offsetY: 0,
+  rotation: 0,
+  scale: 1,
+  ...NEUTRAL_TONE,
+}
+
 const createBlankImage = (): LoadedImage => ({
   id:
     typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -68,12 +238,7 @@ const createBlankImage = (): LoadedImage => ({
   fileName: undefined,
   naturalWidth: undefined,
   naturalHeight: undefined,
-  adjustments: {
-    offsetX: 0,
-    offsetY: 0,
-    rotation: 0,
-    scale: 1,
-  },
+  adjustments: DEFAULT_ADJUSTMENTS,
   isLoaded: false,
 })
 
@@ -83,6 +248,30 @@ const relabelImages = (images: LoadedImage[]): LoadedImage[] =>
     label: `Frame ${index + 1}`,
   }))
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+const ADJUSTMENT_LABELS: Record<keyof ImageAdjustments, string> = {
+  offsetX: 'Offset X',
+  offsetY: 'Offset Y',
+  rotation: 'Rotation',
+  scale: 'Scale',
+  exposure: 'Exposure',
+  contrast: 'Contrast',
+  temperature: 'Temperature',
+  tint: 'Tint',
+  saturation: 'Saturation',
+}
+
+const getFrameLabel = (images: LoadedImage[], id: string) =>
+  images.find((image) => image.id === id)?.label ?? 'frame'
+
 const getInitialTheme = (): 'light' | 'dark' => {
   if (typeof window === 'undefined') return 'light'
   const stored = window.localStorage.getItem('theme')
@@ -115,22 +304,90 @@ function App() {
   const [images, setImages] = useState<LoadedImage[]>(initialSetup.frames)
   const [activeImageId, setActiveImageId] = useState<string>(initialSetup.activeId)
   const [pinnedImageId, setPinnedImageId] = useState<string | null>(null)
-  const [crop, setCrop] = useState<Dimensions>(DEFAULT_CROP)
+  const [crop, setCrop] = useState<CropRect>(DEFAULT_CROP)
   const [crosshair, setCrosshair] = useState<Point>(DEFAULT_CROSSHAIR)
   const [showCrosshair, setShowCrosshair] = useState(true)
+  const [fitKeepsAspect, setFitKeepsAspect] = useState(true)
+  const [edgeFill, setEdgeFill] = useState<EdgeFillSettings>(DEFAULT_EDGE_FILL)
   const [wiggleSpeed, setWiggleSpeed] = useState(160)
+  const [sequence, setSequence] = useState<PlaybackSequence>({
+    preset: 'forward',
+    steps: [],
+  })
+  const [inbetweens, setInbetweens] =
+    useState<InbetweenSettings>(DEFAULT_INBETWEENS)
+  const [previewInbetweens, setPreviewInbetweens] = useState<Map<
+    string,
+    string[]
+  > | null>(null)
+  const [isGeneratingInbetweens, setIsGeneratingInbetweens] = useState(false)
+  const [isBakingInbetweens, setIsBakingInbetweens] = useState(false)
   const [isPlaying, setIsPlaying] = useState(true)
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false)
   const [isExporting, setIsExporting] = useState(false)
   const [exportFormat, setExportFormat] = useState<ExportFormat>('gif')
   const [gifQuality, setGifQuality] = useState<ExportQuality>('medium')
   const [videoQuality, setVideoQuality] = useState<ExportQuality>('medium')
+  const [gifDithering, setGifDithering] = useState<GifDithering>('bayer')
+  const [apngCompression, setApngCompression] =
+    useState<PngCompression>('balanced')
+  const [webpQuality, setWebpQuality] = useState<ExportQuality>('medium')
+  const [webpLossless, setWebpLossless] = useState(false)
+  const [outputSize, setOutputSize] =
+    useState<OutputSizeSettings>(DEFAULT_OUTPUT_SIZE)
+  const [loopCount, setLoopCount] = useState(0)
+  const [keepMetadata, setKeepMetadata] = useState(false)
+  const [stereoSettings, setStereoSettings] = useState<StereoExportSettings>(
+    DEFAULT_STEREO_SETTINGS,
+  )
+  // Unset eyes fall back to the first two frames.
+  const [stereoFrameIds, setStereoFrameIds] = useState<{
+    left: string | null
+    right: string | null
+  }>({ left: null, right: null })
+  const [isStereoExporting, setIsStereoExporting] = useState(false)
   const [exportResult, setExportResult] = useState<ExportResult | null>(null)
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(
+    null,
+  )
+  const [exportRemainingMs, setExportRemainingMs] = useState<number | null>(
+    null,
+  )
+  const exportControllerRef = useRef<AbortController | null>(null)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
   const [crosshairOpacity, setCrosshairOpacity] = useState(CROSSHAIR_DEFAULT_ALPHA)
   const [referenceOpacity, setReferenceOpacity] = useState(DEFAULT_REFERENCE_OPACITY)
+  const [compareMode, setCompareMode] = useState<CompareMode>('overlay')
+  const [loupe, setLoupe] = useState<LoupeSettings>(DEFAULT_LOUPE)
   const frameManagerRef = useRef<HTMLElement | null>(null)
+  const projectInputRef = useRef<HTMLInputElement | null>(null)
+  const [projectError, setProjectError] = useState<string | null>(null)
+  const [isProjectBusy, setIsProjectBusy] = useState(false)
+  // Autosave stays off until any previous session has been restored or
+  // discarded, so it can't be overwritten before the user decides.
+  const [sessionStatus, setSessionStatus] = useState<
+    'checking' | 'pending' | 'ready'
+  >('checking')
+  const [storedSession, setStoredSession] = useState<StoredSession | null>(null)
+  const [sessionReadError, setSessionReadError] = useState<string | null>(
+    null,
+  )
+  const [autosaveError, setAutosaveError] = useState<string | null>(null)
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const frameBlobsRef = useRef(new Map<string, Blob>())
+  const [history, setHistory] = useState<HistoryState>(createHistory)
+  const [videoImport, setVideoImport] = useState<{
+    file: File
+    targetId: string | null
+  } | null>(null)
+  const knownObjectUrlsRef = useRef(new Set<string>())
   const [isCarouselFloating, setIsCarouselFloating] = useState(false)
   const [isCarouselCollapsed, setIsCarouselCollapsed] = useState(false)
+  const [isAligning, setIsAligning] = useState(false)
+  const [isMatchingTone, setIsMatchingTone] = useState(false)
+  const [alignmentResults, setAlignmentResults] = useState<
+    FrameAlignment[] | null
+  >(null)
 
   useEffect(() => {
     document.documentElement.setAttribute('data-theme', theme)
@@ -154,6 +411,36 @@ function App() {
       ? pinnedImage
       : null
 
+  const alignmentReference = pinnedImage ?? images[0]
+
+  // Keyed on ids only so adjustment edits don't restart the preview loop.
+  const frameIdKey = images.map((image) => image.id).join('\n')
+
+  const sequenceSteps = useMemo(
+    () =>
+      resolveSequenceSteps(
+        sequence,
+        frameIdKey ? frameIdKey.split('\n') : [],
+        wiggleSpeed,
+      ),
+    [frameIdKey, sequence, wiggleSpeed],
+  )
+
+  const playbackSteps = useMemo(
+    () => expandInbetweenSteps(sequenceSteps, inbetweens.count),
+    [inbetweens.count, sequenceSteps],
+  )
+
+  const editableSteps = useMemo(
+    () =>
+      sequence.preset === 'custom'
+        ? sequence.steps.filter((step) =>
+            images.some((image) => image.id === step.frameId),
+          )
+        : sequenceSteps,
+    [images, sequence, sequenceSteps],
+  )
+
   useEffect(() => {
     if (!images.length) return
     if (!images.some((image) => image.id === activeImageId)) {
@@ -175,6 +462,41 @@ function App() {
     imagesRef.current = images
   }, [images])
 
+  const documentRef = useRef<EditorDocument>({
+    images,
+    activeImageId,
+    pinnedImageId,
+    crop,
+    crosshair,
+  })
+
+  useEffect(() => {
+    documentRef.current = {
+      images,
+      activeImageId,
+      pinnedImageId,
+      crop,
+      crosshair,
+    }
+  }, [activeImageId, crop, crosshair, images, pinnedImageId])
+
+  // Object URLs are shared between the live frames and the history stacks,
+  // so they are only revoked once nothing references them any more.
+  useEffect(() => {
+    const referenced = collectHistoryObjectUrls(history)
+    images.forEach((image) => {
+      if (image.objectUrl) referenced.add(image.objectUrl)
+    })
+    knownObjectUrlsRef.current.forEach((objectUrl) => {
+      if (!referenced.has(objectUrl)) {
+        URL.revokeObjectURL(objectUrl)
+        knownObjectUrlsRef.current.delete(objectUrl)
+        frameBlobsRef.current.delete(objectUrl)
+      }
+    })
+    referenced.forEach((objectUrl) => knownObjectUrlsRef.current.add(objectUrl))
+  }, [history, images])
+
   useEffect(() => {
     exportResultRef.current = exportResult
   }, [exportResult])
@@ -196,12 +518,14 @@ function App() {
   }, [])
 
   useEffect(() => {
+    const knownObjectUrls = knownObjectUrlsRef.current
     return () => {
       imagesRef.current.forEach((image) => {
         if (image.objectUrl) {
           URL.revokeObjectURL(image.objectUrl)
         }
       })
+      knownObjectUrls.forEach((objectUrl) => URL.revokeObjectURL(objectUrl))
       const result = exportResultRef.current
       if (result?.url) {
         URL.revokeObjectURL(result.url)
@@ -230,12 +554,39 @@ function App() {
   }, [images])
 
   useEffect(() => {
-    setCrop((previous: Dimensions) => ({
+    setCrop((previous: CropRect) => ({
+      ...previous,
       width: clamp(previous.width, MIN_CROP_SIZE, cropLimits.width),
       height: clamp(previous.height, MIN_CROP_SIZE, cropLimits.height),
     }))
   }, [cropLimits.height, cropLimits.width])
 
+  const cropStage = useMemo(
+    () => getCropStage(images, { width: crop.width, height: crop.height }),
+    [crop.height, crop.width, images],
+  )
+
+  const cropSizeLimits = useMemo(
+    () => ({ min: MIN_CROP_SIZE, max: cropLimits }),
+    [cropLimits],
+  )
+
+  const coveredArea = useMemo(() => getCoveredArea(images), [images])
+
+  const coveredCropArea = useMemo(
+    () => (coveredArea ? getCoveredCropArea(coveredArea, crop) : null),
+    [coveredArea, crop],
+  )
+
+  useEffect(() => {
+    setCrop((previous: CropRect) =>
+      clampCropPosition(previous, {
+        width: cropStage.width,
+        height: cropStage.height,
+      }),
+    )
+  }, [cropStage.height, cropStage.width])
+
   useEffect(() => {
     setCrosshair((previous: Point) => ({
       x: clamp(previous.x, 0, crop.width),
@@ -252,69 +603,233 @@ function App() {
     [],
   )
 
-  const handleFrameFileSelect = useCallback(
-    (id: string, file: File) => {
+  const recordHistory = useCallback((label: string, coalesceKey?: string) => {
+    setHistory((previous) =>
+      pushHistory(previous, label, documentRef.current, coalesceKey),
+    )
+  }, [])
+
+  const loadImageDimensions = useCallback(
+    (id: string, objectUrl: string) => {
+      ensureImageElement(objectUrl)
+        .then((loader) => {
+          updateImage(id, (image) =>
+            image.objectUrl === objectUrl
+              ? {
+                  ...image,
+                  naturalWidth: loader.naturalWidth,
+                  naturalHeight: loader.naturalHeight,
+                  isLoaded: true,
+                }
+              : image,
+          )
+        })
+        .catch(() => {
+          updateImage(id, (image) =>
+            image.objectUrl === objectUrl
+              ? {
+                  ...image,
+                  error: 'Unable to read image',
+                  isLoaded: false,
+                }
+              : image,
+          )
+        })
+    },
+    [updateImage],
+  )
+
+  const loadFileIntoFrame = useCallback(
+    (id: string, { file, metadata }: ImportedImage) => {
+      const target = documentRef.current.images.find((image) => image.id === id)
+      recordHistory(
+        `${target?.objectUrl ? 'Replace' : 'Load'} image · ${target?.label ?? 'frame'}`,
+      )
       const objectUrl = URL.createObjectURL(file)
+      frameBlobsRef.current.set(objectUrl, file)
       setImages((previous: LoadedImage[]) =>
         previous.map((image) => {
           if (image.id !== id) return image
-          if (image.objectUrl) {
-            URL.revokeObjectURL(image.objectUrl)
-          }
           return {
             ...image,
             objectUrl,
             fileName: file.name,
             naturalWidth: undefined,
             naturalHeight: undefined,
+            metadata,
+            controlPoints: undefined,
             isLoaded: false,
             error: undefined,
           }
         }),
       )
 
-      const loader = new Image()
-      loader.onload = () => {
-        updateImage(id, (image) => ({
-          ...image,
-          naturalWidth: loader.naturalWidth,
-          naturalHeight: loader.naturalHeight,
-          isLoaded: true,
-        }))
+      loadImageDimensions(id, objectUrl)
+      setActiveImageId(id)
+    },
+    [loadImageDimensions, recordHistory],
+  )
+
+  /**
+   * Loads several images at once. The first replaces the target frame (or
+   * the first empty frame without a target); the rest fill the empty frames
+   * after it and then new frames.
+   */
+  const loadFilesIntoFrames = useCallback(
+    (id: string | null, files: ImportedImage[], label: string) => {
+      if (!files.length) return
+      const current = documentRef.current.images
+      const targetIndex = id
+        ? current.findIndex((image) => image.id === id)
+        : -1
+      if (id && targetIndex < 0) return
+      recordHistory(label)
+
+      const slots = [
+        ...(id ? [id] : []),
+        ...current
+          .slice(targetIndex + 1)
+          .filter((image) => !image.objectUrl)
+          .map((image) => image.id),
+      ]
+      const assignments = files.map(({ file, metadata }, index) => {
+        const objectUrl = URL.createObjectURL(file)
+        frameBlobsRef.current.set(objectUrl, file)
+        const existingId = slots[index]
+        const frame = existingId ? null : createBlankImage()
+        return {
+          file,
+          metadata,
+          objectUrl,
+          frame,
+          id: frame?.id ?? existingId ?? '',
+        }
+      })
+
+      setImages((previous: LoadedImage[]) => {
+        const withFile = (image: LoadedImage) => {
+          const assignment = assignments.find((item) => item.id === image.id)
+          if (!assignment) return image
+          return {
+            ...image,
+            objectUrl: assignment.objectUrl,
+            fileName: assignment.file.name,
+            naturalWidth: undefined,
+            naturalHeight: undefined,
+            metadata: assignment.metadata,
+            controlPoints: undefined,
+            isLoaded: false,
+            error: undefined,
+          }
+        }
+        const next = previous.map(withFile)
+        const lastAssigned = Math.max(
+          ...assignments.map((assignment) =>
+            next.findIndex((image) => image.id === assignment.id),
+          ),
+        )
+        const added = assignments.flatMap((assignment) =>
+          assignment.frame ? [withFile(assignment.frame)] : [],
+        )
+        // With nothing reused, new frames go to the end.
+        next.splice(
+          lastAssigned < 0 ? next.length : lastAssigned + 1,
+          0,
+          ...added,
+        )
+        return relabelImages(next)
+      })
+
+      assignments.forEach((assignment) =>
+        loadImageDimensions(assignment.id, assignment.objectUrl),
+      )
+      setActiveImageId(assignments[0].id)
+    },
+    [loadImageDimensions, recordHistory],
+  )
+
+  const handleFrameFileSelect = useCallback(
+    (id: string, file: File) => {
+      if (file.type.startsWith('video/')) {
+        setVideoImport({ file, targetId: id })
+        return
       }
-      loader.onerror = () => {
-        updateImage(id, (image) => ({
-          ...image,
-          error: 'Unable to read image',
-          isLoaded: false,
-        }))
+      // EXIF orientation is applied here, before anything measures the image.
+      const importFile = () =>
+        readImageFile(file).then((imported) => loadFileIntoFrame(id, imported))
+      if (!isPossibleMpo(file)) {
+        void importFile()
+        return
       }
-      loader.src = objectUrl
-      setActiveImageId(id)
+      file
+        .arrayBuffer()
+        .then(async (buffer) => {
+          const views = splitMpo(buffer)
+          if (views.length < 2) {
+            await importFile()
+            return
+          }
+          const baseName = file.name.replace(/\.[^.]+$/, '')
+          const imported = await Promise.all(
+            views.map((bytes, index) =>
+              readImageFile(
+                new File(
+                  [bytes.slice().buffer],
+                  `${baseName}-${index + 1}.jpg`,
+                  { type: 'image/jpeg' },
+                ),
+              ),
+            ),
+          )
+          loadFilesIntoFrames(
+            id,
+            imported,
+            `Import ${views.length} views · ${getFrameLabel(documentRef.current.images, id)}`,
+          )
+        })
+        .catch(() => loadFileIntoFrame(id, { file }))
     },
-    [updateImage],
+    [loadFileIntoFrame, loadFilesIntoFrames],
+  )
+
+  const handleVideoExtract = useCallback(
+    (files: File[]) => {
+      loadFilesIntoFrames(
+        videoImport?.targetId ?? null,
+        files.map((file) => ({ file })),
+        `Extract ${files.length} frames from video`,
+      )
+      setVideoImport(null)
+    },
+    [loadFilesIntoFrames, videoImport?.targetId],
   )
 
   const handleAddFrame = useCallback(() => {
+    recordHistory('Add frame')
     const nextFrame = createBlankImage()
     setImages((previous: LoadedImage[]) =>
       relabelImages([...previous, nextFrame]),
     )
     setActiveImageId(nextFrame.id)
-  }, [])
+  }, [recordHistory])
 
   const handleRemoveFrame = useCallback(
     (id: string) => {
+      const current = documentRef.current.images
+      if (
+        current.length <= MINIMUM_FRAMES ||
+        !current.some((image) => image.id === id)
+      ) {
+        return
+      }
+      recordHistory(`Remove ${getFrameLabel(documentRef.current.images, id)}`)
+
       setImages((previous: LoadedImage[]) => {
         if (previous.length <= MINIMUM_FRAMES) return previous
 
         const target = previous.find((image) => image.id === id)
         if (!target) return previous
 
-        if (target.objectUrl) {
-          URL.revokeObjectURL(target.objectUrl)
-        }
-
         const filtered = previous.filter((image) => image.id !== id)
         const relabeled = relabelImages(filtered)
 
@@ -334,18 +849,43 @@ function App() {
         return relabeled
       })
     },
-    [activeImageId, pinnedImageId],
+    [activeImageId, pinnedImageId, recordHistory],
+  )
+
+  const handleReorderFrame = useCallback(
+    (id: string, toIndex: number) => {
+      const current = documentRef.current.images
+      const fromIndex = current.findIndex((image) => image.id === id)
+      if (fromIndex < 0 || fromIndex === toIndex) return
+      recordHistory(`Move ${getFrameLabel(current, id)}`)
+      setImages((previous: LoadedImage[]) => {
+        const from = previous.findIndex((image) => image.id === id)
+        if (from < 0) return previous
+        const next = [...previous]
+        const [moved] = next.splice(from, 1)
+        next.splice(clamp(toIndex, 0, next.length), 0, moved)
+        return relabelImages(next)
+      })
+    },
+    [recordHistory],
   )
 
   const handlePinToggle = useCallback(
     (id: string) => {
+      recordHistory(
+        `${documentRef.current.pinnedImageId === id ? 'Unpin' : 'Pin'} ${getFrameLabel(documentRef.current.images, id)}`,
+      )
       setPinnedImageId((previous) => (previous === id ? null : id))
     },
-    [],
+    [recordHistory],
   )
 
   const handleAdjustmentChange = useCallback(
     (id: string, key: keyof ImageAdjustments, value: number) => {
+      recordHistory(
+        `${ADJUSTMENT_LABELS[key]} · ${getFrameLabel(documentRef.current.images, id)}`,
+        `adjust:${id}:${key}`,
+      )
       updateImage(id, (image) => ({
         ...image,
         adjustments: {
@@ -354,27 +894,141 @@ function App() {
         },
       }))
     },
-    [updateImage],
+    [recordHistory, updateImage],
+  )
+
+  /** Steps an adjustment from its current value, for key nudges. */
+  const nudgeAdjustment = useCallback(
+    (id: string, key: NudgeKey, delta: number) => {
+      recordHistory(
+        `${ADJUSTMENT_LABELS[key]} · ${getFrameLabel(documentRef.current.images, id)}`,
+        `adjust:${id}:${key}`,
+      )
+      const factor = 10 ** NUDGE_PRECISION[key]
+      updateImage(id, (image) => {
+        const value =
+          Math.round((image.adjustments[key] + delta) * factor) / factor
+        return {
+          ...image,
+          adjustments: {
+            ...image.adjustments,
+            [key]: key === 'scale' ? Math.max(MIN_FRAME_SCALE, value) : value,
+          },
+        }
+      })
+    },
+    [recordHistory, updateImage],
   )
 
+  const setFrameTransform = useCallback(
+    (
+      id: string,
+      transform: FrameTransform,
+      label: string,
+      coalesceKey?: string,
+    ) => {
+      recordHistory(
+        `${label} · ${getFrameLabel(documentRef.current.images, id)}`,
+        coalesceKey,
+      )
+      const rounded = Object.fromEntries(
+        (Object.keys(transform) as NudgeKey[]).map((key) => {
+          const factor = 10 ** NUDGE_PRECISION[key]
+          return [key, Math.round(transform[key] * factor) / factor]
+        }),
+      )
+      updateImage(id, (image) => ({
+        ...image,
+        adjustments: { ...image.adjustments, ...rounded },
+      }))
+    },
+    [recordHistory, updateImage],
+  )
+
+  const handleFrameTransform = useCallback(
+    (id: string, transform: FrameTransform) =>
+      setFrameTransform(id, transform, 'Transform', `transform:${id}`),
+    [setFrameTransform],
+  )
+
+  const handleControlPointAdd = useCallback(
+    (id: string, point: Point) => {
+      recordHistory(
+        `Add control point · ${getFrameLabel(documentRef.current.images, id)}`,
+      )
+      updateImage(id, (image) => ({
+        ...image,
+        controlPoints: [...(image.controlPoints ?? []), point],
+      }))
+    },
+    [recordHistory, updateImage],
+  )
+
+  const handleControlPointMove = useCallback(
+    (id: string, index: number, point: Point) => {
+      recordHistory(
+        `Move control point · ${getFrameLabel(documentRef.current.images, id)}`,
+        `points:${id}:${index}`,
+      )
+      updateImage(id, (image) => ({
+        ...image,
+        controlPoints: image.controlPoints?.map((current, position) =>
+          position === index ? point : current,
+        ),
+      }))
+    },
+    [recordHistory, updateImage],
+  )
+
+  const handleControlPointRemove = useCallback(
+    (index: number) => {
+      recordHistory(`Remove control point ${index + 1}`)
+      // Removing it everywhere keeps the later points matched up.
+      setImages((previous: LoadedImage[]) =>
+        previous.map((image) =>
+          image.controlPoints && index < image.controlPoints.length
+            ? {
+                ...image,
+                controlPoints: image.controlPoints.filter(
+                  (_, position) => position !== index,
+                ),
+              }
+            : image,
+        ),
+      )
+    },
+    [recordHistory],
+  )
+
+  const handleControlPointsClear = useCallback(
+    (id: string) => {
+      recordHistory(
+        `Clear control points · ${getFrameLabel(documentRef.current.images, id)}`,
+      )
+      updateImage(id, (image) => ({ ...image, controlPoints: undefined }))
+    },
+    [recordHistory, updateImage],
+  )
+
+  const handleLoupeZoomChange = useCallback((zoom: number) => {
+    setLoupe((previous) => ({ ...previous, zoom: clampLoupeZoom(zoom) }))
+  }, [])
+
   const handleResetAdjustments = useCallback(
     (id: string) => {
+      recordHistory(`Reset ${getFrameLabel(documentRef.current.images, id)}`)
       updateImage(id, (image) => ({
         ...image,
-        adjustments: {
-          offsetX: 0,
-          offsetY: 0,
-          rotation: 0,
-          scale: 1,
-        },
+        adjustments: DEFAULT_ADJUSTMENTS,
       }))
     },
-    [updateImage],
+    [recordHistory, updateImage],
   )
 
   const setCropDimension = useCallback(
     (dimension: keyof Dimensions, value: number) => {
-      setCrop((previous: Dimensions) => ({
+      recordHistory(`Crop ${dimension}`, `crop:${dimension}`)
+      setCrop((previous: CropRect) => ({
         ...previous,
         [dimension]: clamp(
           Math.round(value),
@@ -383,12 +1037,13 @@ function App() {
         ),
       }))
     },
-    [cropLimits.height, cropLimits.width],
+    [cropLimits.height, cropLimits.width, recordHistory],
   )
 
   const adjustCropDimension = useCallback(
     (dimension: keyof Dimensions, delta: number) => {
-      setCrop((previous: Dimensions) => {
+      recordHistory(`Crop ${dimension}`, `crop:${dimension}`)
+      setCrop((previous: CropRect) => {
         const current = previous[dimension]
         const nextValue = current + delta
         return {
@@ -401,11 +1056,66 @@ function App() {
         }
       })
     },
-    [cropLimits.height, cropLimits.width],
+    [cropLimits.height, cropLimits.width, recordHistory],
   )
 
+  /** Sets the crop, keeping the crosshair over the same point of the frames. */
+  const moveCrop = useCallback(
+    (next: CropRect) => {
+      const shiftX = crop.x - crop.width / 2 - (next.x - next.width / 2)
+      const shiftY = crop.y - crop.height / 2 - (next.y - next.height / 2)
+      setCrosshair((previous: Point) => ({
+        x: clamp(previous.x + shiftX, 0, next.width),
+        y: clamp(previous.y + shiftY, 0, next.height),
+      }))
+      setCrop(next)
+    },
+    [crop],
+  )
+
+  const handleCropChange = useCallback(
+    (next: CropRect) => {
+      const isResize =
+        next.width !== crop.width || next.height !== crop.height
+      recordHistory(isResize ? 'Resize crop' : 'Move crop', 'crop:drag')
+      moveCrop(next)
+    },
+    [crop.height, crop.width, moveCrop, recordHistory],
+  )
+
+  const handleFitCrop = useCallback(() => {
+    if (!coveredArea) return
+    const next = fitCropToArea(
+      coveredArea,
+      getCropStage(images, { width: 0, height: 0 }),
+      fitKeepsAspect && crop.height ? crop.width / crop.height : null,
+      cropSizeLimits,
+    )
+    if (!next) {
+      setErrorMessage('The frames overlap too little to fit a crop.')
+      return
+    }
+    recordHistory('Fit crop to valid area')
+    moveCrop(next)
+  }, [
+    coveredArea,
+    crop.height,
+    crop.width,
+    cropSizeLimits,
+    fitKeepsAspect,
+    images,
+    moveCrop,
+    recordHistory,
+  ])
+
+  const handleCenterCrop = useCallback(() => {
+    if (!crop.x && !crop.y) return
+    handleCropChange({ ...crop, x: 0, y: 0 })
+  }, [crop, handleCropChange])
+
   const handleCrosshairInput = useCallback(
     (axis: keyof Point, value: number) => {
+      recordHistory('Move crosshair', 'crosshair')
       setCrosshair((previous: Point) => {
         const max = axis === 'x' ? crop.width : crop.height
         return {
@@ -414,12 +1124,122 @@ function App() {
         }
       })
     },
-    [crop.height, crop.width],
+    [crop.height, crop.width, recordHistory],
   )
 
-  const handleCrosshairChange = useCallback((point: Point) => {
-    setCrosshair(point)
-  }, [])
+  const handleCrosshairChange = useCallback(
+    (point: Point) => {
+      recordHistory('Move crosshair', 'crosshair')
+      setCrosshair(point)
+    },
+    [recordHistory],
+  )
+
+  const applyDocument = useCallback(
+    (document: EditorDocument) => {
+      setImages(document.images)
+      setActiveImageId(document.activeImageId)
+      setPinnedImageId(document.pinnedImageId)
+      setCrop(document.crop)
+      setCrosshair(document.crosshair)
+      // Frames that were still decoding when the state was recorded
+      document.images.forEach((image) => {
+        if (image.objectUrl && !image.isLoaded && !image.error) {
+          loadImageDimensions(image.id, image.objectUrl)
+        }
+      })
+    },
+    [loadImageDimensions],
+  )
+
+  const handleHistoryStep = useCallback(
+    (steps: number) => {
+      const result = stepHistory(history, documentRef.current, steps)
+      if (!result) return
+      setHistory(result.history)
+      applyDocument(result.document)
+    },
+    [applyDocument, history],
+  )
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.altKey) return
+      if (isTextEntryTarget(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        handleHistoryStep(event.shiftKey ? 1 : -1)
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault()
+        handleHistoryStep(1)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleHistoryStep])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || videoImport || isShortcutBlocked(event)) {
+        return
+      }
+      const action = getShortcutAction(event)
+      if (!action) return
+      // The help overlay only listens for the keys that close it.
+      if (
+        isShortcutHelpOpen &&
+        action.type !== 'toggle-help' &&
+        action.type !== 'close-help'
+      ) {
+        return
+      }
+      if (action.type === 'close-help' && !isShortcutHelpOpen) return
+      event.preventDefault()
+
+      switch (action.type) {
+        case 'nudge':
+          if (activeImage?.objectUrl) {
+            nudgeAdjustment(activeImage.id, action.key, action.delta)
+          }
+          break
+        case 'select-frame':
+          if (images[action.index]) setActiveImageId(images[action.index].id)
+          break
+        case 'cycle-frame': {
+          const index = images.findIndex((image) => image.id === activeImageId)
+          const next =
+            (index + action.direction + images.length) % images.length
+          setActiveImageId(images[next].id)
+          break
+        }
+        case 'toggle-pin':
+          if (activeImage) handlePinToggle(activeImage.id)
+          break
+        case 'toggle-play':
+          setIsPlaying((previous: boolean) => !previous)
+          break
+        case 'toggle-help':
+          setIsShortcutHelpOpen((previous) => !previous)
+          break
+        case 'close-help':
+          setIsShortcutHelpOpen(false)
+          break
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [
+    activeImage,
+    activeImageId,
+    handlePinToggle,
+    images,
+    isShortcutHelpOpen,
+    nudgeAdjustment,
+    videoImport,
+  ])
 
   const loadedCount = useMemo(
     () => images.filter((image) => image.objectUrl).length,
@@ -435,8 +1255,63 @@ function App() {
     loadedImages.length >= MINIMUM_FRAMES &&
     loadedImages.length === images.length &&
     !isExporting &&
+    sequenceSteps.length > 0 &&
     crop.width > 0
 
+  const canRenderInbetweens =
+    loadedImages.length >= MINIMUM_FRAMES &&
+    loadedImages.length === images.length &&
+    crop.width > 0 &&
+    playbackSteps.some((step) => step.inbetween)
+
+  // In-betweens depend on every adjustment, so the preview regenerates them
+  // once edits settle.
+  useEffect(() => {
+    if (!canRenderInbetweens) {
+      setPreviewInbetweens(null)
+      return undefined
+    }
+    const controller = new AbortController()
+    const task = { signal: controller.signal }
+    const timeout = window.setTimeout(() => {
+      setIsGeneratingInbetweens(true)
+      generateFrames(
+        images,
+        { crop, output: PREVIEW_INBETWEEN_SIZE, fill: edgeFill },
+        task,
+      )
+        .then((rendered) =>
+          generateInbetweenFrames(
+            images,
+            rendered,
+            playbackSteps,
+            inbetweens,
+            resolveOutputSize(crop, PREVIEW_INBETWEEN_SIZE),
+            task,
+          ),
+        )
+        .then(setPreviewInbetweens)
+        .catch(() => {
+          if (!controller.signal.aborted) setPreviewInbetweens(null)
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsGeneratingInbetweens(false)
+        })
+    }, PREVIEW_INBETWEEN_DELAY_MS)
+    return () => {
+      window.clearTimeout(timeout)
+      controller.abort()
+      setIsGeneratingInbetweens(false)
+    }
+  }, [
+    canRenderInbetweens,
+    crop,
+    edgeFill,
+    images,
+    inbetweens,
+    playbackSteps,
+  ])
+
   const qualityOptions = useMemo(
     () =>
       (Object.keys(QUALITY_LABELS) as ExportQuality[]).map((value) => ({
@@ -447,30 +1322,114 @@ function App() {
   )
 
   const currentQuality =
-    exportFormat === 'gif' ? gifQuality : videoQuality
+    exportFormat === 'gif'
+      ? gifQuality
+      : exportFormat === 'webp'
+        ? webpQuality
+        : videoQuality
+
+  const currentFormatOption =
+    EXPORT_FORMAT_OPTIONS.find((option) => option.value === exportFormat) ??
+    EXPORT_FORMAT_OPTIONS[0]
 
   const handleExport = useCallback(async () => {
     if (!canExport) return
     if (!loadedImages.length) return
+    const controller = new AbortController()
+    exportControllerRef.current = controller
+    const startedAt = performance.now()
+    const task = {
+      signal: controller.signal,
+      onProgress: (progress: ExportProgress) => {
+        setExportProgress(progress)
+        // Estimates from the first few percent jump around too much to show.
+        const ratio = getExportRatio(progress, canRenderInbetweens)
+        const elapsed = performance.now() - startedAt
+        setExportRemainingMs(
+          ratio >= 0.05 && ratio < 1 ? (elapsed / ratio) * (1 - ratio) : null,
+        )
+      },
+    }
     setIsExporting(true)
+    setExportProgress(null)
+    setExportRemainingMs(null)
     setErrorMessage(null)
 
     try {
-      const frames = await generateFrames(images, crop)
-      const interval = Math.max(wiggleSpeed, 60)
-
-      const blob =
-        exportFormat === 'gif'
-          ? await makeGif(frames, {
-              intervalMs: interval,
-              size: crop,
-              quality: gifQuality,
-            })
-          : await makeMp4(frames, {
-              intervalMs: interval,
-              size: crop,
-              quality: videoQuality,
-            })
+      const size = resolveOutputSize(crop, outputSize)
+      // The first frame with capture details speaks for the wigglegram.
+      const metadata = keepMetadata
+        ? images.find((image) => image.metadata)?.metadata
+        : undefined
+      const rendered = await generateFrames(
+        images,
+        { crop, output: outputSize, fill: edgeFill },
+        task,
+      )
+      const generated = canRenderInbetweens
+        ? await generateInbetweenFrames(
+            images,
+            rendered,
+            playbackSteps,
+            inbetweens,
+            size,
+            task,
+          )
+        : undefined
+      const frames = arrangeFrames(images, rendered, playbackSteps, generated)
+      const durations = playbackSteps.map((step) => step.durationMs)
+
+      let blob: Blob
+      switch (exportFormat) {
+        case 'gif':
+          blob = await makeGif(frames, {
+            durations,
+            size,
+            quality: gifQuality,
+            dithering: gifDithering,
+            loopCount,
+            metadata,
+            ...task,
+          })
+          break
+        case 'apng':
+          blob = await makeApng(frames, {
+            durations,
+            size,
+            compression: apngCompression,
+            loopCount,
+            metadata,
+            ...task,
+          })
+          break
+        case 'webp':
+          blob = await makeWebp(frames, {
+            durations,
+            size,
+            quality: webpQuality,
+            lossless: webpLossless,
+            loopCount,
+            ...task,
+          })
+          break
+        case 'webm':
+          blob = await makeWebm(frames, {
+            durations,
+            size,
+            quality: videoQuality,
+            metadata,
+            ...task,
+          })
+          break
+        default:
+          blob = await makeMp4(frames, {
+            durations,
+            size,
+            quality: videoQuality,
+            metadata,
+            ...task,
+          })
+      }
 
       const objectUrl = URL.createObjectURL(blob)
       if (exportResult?.url) {
@@ -479,27 +1438,520 @@ function App() {
       setExportResult({
         url: objectUrl,
         format: exportFormat,
-        fileName: `wigglegram.${exportFormat}`,
+        fileName: `wigglegram.${currentFormatOption.extension}`,
       })
     } catch (error) {
+      if (controller.signal.aborted) {
+        setErrorMessage('Export cancelled.')
+        return
+      }
       const message =
         error instanceof Error ? error.message : 'Unable to render export'
       setErrorMessage(message)
     } finally {
+      if (exportControllerRef.current === controller) {
+        exportControllerRef.current = null
+      }
       setIsExporting(false)
+      setExportProgress(null)
+      setExportRemainingMs(null)
     }
   }, [
+    apngCompression,
     canExport,
+    canRenderInbetweens,
     crop,
+    currentFormatOption.extension,
+    edgeFill,
     exportFormat,
     exportResult?.url,
+    gifDithering,
     gifQuality,
     images,
+    inbetweens,
+    keepMetadata,
     loadedImages.length,
+    loopCount,
+    outputSize,
+    playbackSteps,
     videoQuality,
-    wiggleSpeed,
+    webpLossless,
+    webpQuality,
   ])
 
+  /**
+   * Turns the generated frames into regular frames placed after the frame
+   * they start from, and replaces the sequence with the expanded one.
+   */
+  const handleBakeInbetweens = useCallback(async () => {
+    if (!canRenderInbetweens) return
+    setIsBakingInbetweens(true)
+    setErrorMessage(null)
+    try {
+      const rendered = await generateFrames(images, { crop, fill: edgeFill })
+      const generated = await generateInbetweenFrames(
+        images,
+        rendered,
+        playbackSteps,
+        inbetweens,
+        crop,
+      )
+      const baked = new Map<string, LoadedImage[]>()
+      generated.forEach((frames, key) => {
+        baked.set(
+          key,
+          frames.map((dataUrl, index) => {
+            const blob = dataUrlToBlob(dataUrl)
+            const objectUrl = URL.createObjectURL(blob)
+            frameBlobsRef.current.set(objectUrl, blob)
+            return {
+              ...createBlankImage(),
+              objectUrl,
+              fileName: `inbetween-${index + 1}.png`,
+              naturalWidth: crop.width,
+              naturalHeight: crop.height,
+              isLoaded: true,
+              // Rendered in crop space, so they stay where the crop was.
+              adjustments: {
+                ...DEFAULT_ADJUSTMENTS,
+                offsetX: crop.x,
+                offsetY: crop.y,
+              },
+            }
+          }),
+        )
+      })
+      const pairs = getInbetweenPairs(playbackSteps)
+
+      recordHistory('Bake in-between frames')
+      setImages((previous: LoadedImage[]) =>
+        relabelImages(
+          previous.flatMap((image) => [
+            image,
+            ...pairs
+              .filter(([fromId]) => fromId === image.id)
+              .flatMap(
+                ([fromId, toId]) =>
+                  baked.get(getInbetweenKey(fromId, toId)) ?? [],
+              ),
+          ]),
+        ),
+      )
+      setSequence({
+        preset: 'custom',
+        steps: playbackSteps.map(({ frameId, durationMs, inbetween }) => ({
+          frameId: inbetween
+            ? (baked.get(getInbetweenKey(frameId, inbetween.toFrameId))?.[
+                inbetween.index
+              ]?.id ?? frameId)
+            : frameId,
+          durationMs,
+        })),
+      })
+      setInbetweens((current) => ({ ...current, count: 0 }))
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Unable to bake in-between frames',
+      )
+    } finally {
+      setIsBakingInbetweens(false)
+    }
+  }, [
+    canRenderInbetweens,
+    crop,
+    edgeFill,
+    images,
+    inbetweens,
+    playbackSteps,
+    recordHistory,
+  ])
+
+  const stereoLeft =
+    images.find((image) => image.id === stereoFrameIds.left) ?? images[0]
+  const stereoRight =
+    images.find((image) => image.id === stereoFrameIds.right) ?? images[1]
+
+  const canExportStereo =
+    Boolean(stereoLeft?.objectUrl && stereoRight?.objectUrl) &&
+    stereoLeft.id !== stereoRight.id &&
+    crop.width > 0
+
+  const handleStereoExport = useCallback(async () => {
+    if (!canExportStereo) return
+    setIsStereoExporting(true)
+    setErrorMessage(null)
+    try {
+      const blob = await makeStereoImage(
+        [stereoLeft, stereoRight],
+        { crop, output: outputSize, fill: edgeFill },
+        stereoSettings,
+      )
+      const extension = stereoSettings.format === 'jpeg' ? 'jpg' : 'png'
+      downloadBlob(blob, `wigglegram-${stereoSettings.layout}.${extension}`)
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error
+          ? error.message
+          : 'Unable to render stereo image',
+      )
+    } finally {
+      setIsStereoExporting(false)
+    }
+  }, [
+    canExportStereo,
+    crop,
+    edgeFill,
+    outputSize,
+    stereoLeft,
+    stereoRight,
+    stereoSettings,
+  ])
+
+  const handleCancelExport = useCallback(() => {
+    exportControllerRef.current?.abort()
+  }, [])
+
+  // Leaving the page mid-export stops the workers and ffmpeg with it.
+  useEffect(() => () => exportControllerRef.current?.abort(), [])
+
+  const canAlign =
+    Boolean(alignmentReference?.objectUrl) &&
+    loadedImages.length >= MINIMUM_FRAMES
+
+  const handleSolveControlPoints = useCallback(() => {
+    if (!activeImage || !alignmentReference) return
+    const solved = solveControlPoints(activeImage, alignmentReference)
+    if (!solved) {
+      setErrorMessage(
+        `Place at least two separate points on both ${activeImage.label} and ${alignmentReference.label}.`,
+      )
+      return
+    }
+    setErrorMessage(null)
+    setFrameTransform(activeImage.id, solved, 'Solve from control points')
+  }, [activeImage, alignmentReference, setFrameTransform])
+
+  const handleAutoAlign = useCallback(async () => {
+    if (!canAlign || !alignmentReference) return
+    setIsAligning(true)
+    setErrorMessage(null)
+
+    try {
+      const results = await autoAlignFrames(
+        images,
+        alignmentReference.id,
+        crop,
+        crosshair,
+      )
+      recordHistory(AUTO_ALIGN_LABEL)
+      setImages((current: LoadedImage[]) =>
+        current.map((image) => {
+          const result = results.find((item) => item.id === image.id)
+          if (!result) return image
+          return {
+            ...image,
+            adjustments: {
+              ...image.adjustments,
+              offsetX: result.offsetX,
+              offsetY: result.offsetY,
+            },
+          }
+        }),
+      )
+      setAlignmentResults(results)
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unable to align frames'
+      setErrorMessage(message)
+    } finally {
+      setIsAligning(false)
+    }
+  }, [alignmentReference, canAlign, crop, crosshair, images, recordHistory])
+
+  const handleMatchTone = useCallback(async () => {
+    if (!canAlign || !alignmentReference) return
+    setIsMatchingTone(true)
+    setErrorMessage(null)
+
+    try {
+      const tones = await autoMatchTone(images, alignmentReference.id, crop)
+      recordHistory('Auto-match tone')
+      setImages((current: LoadedImage[]) =>
+        current.map((image) =>
+          tones[image.id]
+            ? {
+                ...image,
+                adjustments: { ...image.adjustments, ...tones[image.id] },
+              }
+            : image,
+        ),
+      )
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : 'Unable to match frame tone'
+      setErrorMessage(message)
+    } finally {
+      setIsMatchingTone(false)
+    }
+  }, [alignmentReference, canAlign, crop, images, recordHistory])
+
+  // The panel's Undo is only offered while auto-align is the latest history
+  // step, so it can never restore offsets over later edits.
+  const canUndoAlign = history.past.at(-1)?.label === AUTO_ALIGN_LABEL
+
+  const handleUndoAlign = useCallback(() => {
+    if (!canUndoAlign) return
+    handleHistoryStep(-1)
+    setAlignmentResults(null)
+  }, [canUndoAlign, handleHistoryStep])
+
+  const handleSequencePresetChange = useCallback(
+    (preset: SequencePreset) => {
+      setSequence(
+        preset === 'custom'
+          ? { preset, steps: sequenceSteps }
+          : { preset, steps: [] },
+      )
+    },
+    [sequenceSteps],
+  )
+
+  const handleSequenceStepsChange = useCallback((steps: SequenceStep[]) => {
+    setSequence({ preset: 'custom', steps })
+  }, [])
+
+  const readFrameBlob = useCallback(async (objectUrl: string) => {
+    const cached = frameBlobsRef.current.get(objectUrl)
+    if (cached) return cached
+    const blob = await fetch(objectUrl).then((response) => response.blob())
+    frameBlobsRef.current.set(objectUrl, blob)
+    return blob
+  }, [])
+
+  const createSnapshot = useCallback(
+    async (): Promise<ProjectSnapshot> => ({
+      frames: await Promise.all(
+        images.map(async (image) => ({
+          id: image.id,
+          label: image.label,
+          fileName: image.fileName,
+          naturalWidth: image.naturalWidth,
+          naturalHeight: image.naturalHeight,
+          metadata: image.metadata,
+          adjustments: image.adjustments,
+          controlPoints: image.controlPoints,
+          blob: image.objectUrl
+            ? await readFrameBlob(image.objectUrl)
+            : undefined,
+        })),
+      ),
+      activeFrameId: activeImageId,
+      pinnedFrameId: pinnedImageId,
+      crop,
+      crosshair,
+      wiggleSpeed,
+      sequence,
+      inbetweens,
+      edgeFill,
+      exportSettings: {
+        format: exportFormat,
+        gifQuality,
+        videoQuality,
+        gifDithering,
+        apngCompression,
+        webpQuality,
+        webpLossless,
+        loopCount,
+        outputSize,
+        keepMetadata,
+        stereo: stereoSettings,
+      },
+    }),
+    [
+      activeImageId,
+      apngCompression,
+      crop,
+      crosshair,
+      edgeFill,
+      exportFormat,
+      gifDithering,
+      gifQuality,
+      images,
+      inbetweens,
+      keepMetadata,
+      loopCount,
+      outputSize,
+      pinnedImageId,
+      readFrameBlob,
+      sequence,
+      stereoSettings,
+      videoQuality,
+      webpLossless,
+      webpQuality,
+      wiggleSpeed,
+    ],
+  )
+
+  const restoreSnapshot = useCallback(
+    (snapshot: ProjectSnapshot) => {
+      if (!snapshot.frames.length) {
+        throw new Error('Project has no frames.')
+      }
+      // The previous frames' object URLs are revoked once neither the frames
+      // nor the history reference them.
+      setHistory(createHistory())
+
+      const restored = snapshot.frames.map(
+        ({ blob, ...frame }): LoadedImage => {
+          const objectUrl = blob ? URL.createObjectURL(blob) : undefined
+          if (blob && objectUrl) {
+            frameBlobsRef.current.set(objectUrl, blob)
+          }
+          return { ...frame, objectUrl, isLoaded: false }
+        },
+      )
+      setImages(restored)
+      setActiveImageId(
+        restored.some((image) => image.id === snapshot.activeFrameId)
+          ? (snapshot.activeFrameId as string)
+          : restored[0].id,
+      )
+      setPinnedImageId(snapshot.pinnedFrameId)
+      setCrop(snapshot.crop)
+      setCrosshair(snapshot.crosshair)
+      setWiggleSpeed(snapshot.wiggleSpeed)
+      setSequence(snapshot.sequence)
+      setInbetweens(snapshot.inbetweens)
+      setEdgeFill(snapshot.edgeFill)
+      setExportFormat(snapshot.exportSettings.format)
+      setGifQuality(snapshot.exportSettings.gifQuality)
+      setVideoQuality(snapshot.exportSettings.videoQuality)
+      setGifDithering(snapshot.exportSettings.gifDithering)
+      setApngCompression(snapshot.exportSettings.apngCompression)
+      setWebpQuality(snapshot.exportSettings.webpQuality)
+      setWebpLossless(snapshot.exportSettings.webpLossless)
+      setOutputSize(snapshot.exportSettings.outputSize)
+      setLoopCount(snapshot.exportSettings.loopCount)
+      setKeepMetadata(snapshot.exportSettings.keepMetadata)
+      setStereoSettings(snapshot.exportSettings.stereo)
+      setStereoFrameIds({ left: null, right: null })
+      setAlignmentResults(null)
+      restored.forEach((image) => {
+        if (image.objectUrl) {
+          loadImageDimensions(image.id, image.objectUrl)
+        }
+      })
+    },
+    [loadImageDimensions],
+  )
+
+  const handleSaveProject = useCallback(async () => {
+    setIsProjectBusy(true)
+    setProjectError(null)
+    try {
+      const blob = await exportProject(await createSnapshot())
+      downloadBlob(blob, `wigglegram${PROJECT_FILE_EXTENSION}`)
+    } catch (error) {
+      setProjectError(
+        error instanceof Error ? error.message : 'Unable to save project',
+      )
+    } finally {
+      setIsProjectBusy(false)
+    }
+  }, [createSnapshot])
+
+  const handleOpenProject = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      event.target.value = ''
+      if (!file) return
+      setIsProjectBusy(true)
+      setProjectError(null)
+      try {
+        restoreSnapshot(await importProject(file))
+      } catch (error) {
+        setProjectError(
+          error instanceof Error ? error.message : 'Unable to open project',
+        )
+      } finally {
+        setIsProjectBusy(false)
+      }
+    },
+    [restoreSnapshot],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    loadSession()
+      .then((session) => {
+        if (cancelled) return
+        if (session?.snapshot.frames.some((frame) => frame.blob)) {
+          setStoredSession(session)
+          setSessionStatus('pending')
+        } else {
+          setSessionStatus('ready')
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return
+        // Keep autosave off so the unreadable session isn't overwritten
+        // until the user discards it.
+        setSessionReadError(
+          error instanceof Error
+            ? error.message
+            : 'Unable to read the previous session',
+        )
+        setSessionStatus('pending')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (sessionStatus !== 'ready') return undefined
+
+    const timeout = window.setTimeout(() => {
+      createSnapshot()
+        .then(saveSession)
+        .then(() => {
+          setLastSavedAt(new Date())
+          setAutosaveError(null)
+        })
+        .catch((error) => {
+          setAutosaveError(
+            error instanceof Error ? error.message : 'Unable to autosave session',
+          )
+        })
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => window.clearTimeout(timeout)
+  }, [createSnapshot, sessionStatus])
+
+  const handleRestoreSession = useCallback(() => {
+    if (!storedSession) return
+    try {
+      restoreSnapshot(storedSession.snapshot)
+    } catch (error) {
+      setProjectError(
+        error instanceof Error ? error.message : 'Unable to restore session',
+      )
+    }
+    setStoredSession(null)
+    setSessionStatus('ready')
+  }, [restoreSnapshot, storedSession])
+
+  const handleDiscardSession = useCallback(() => {
+    setStoredSession(null)
+    setSessionReadError(null)
+    setSessionStatus('ready')
+    clearSession().catch(() => {
+      // The next autosave overwrites the stale session anyway
+    })
+  }, [])
+
   const handleClearExport = useCallback(() => {
     if (exportResult?.url) {
       URL.revokeObjectURL(exportResult.url)
@@ -515,12 +1967,24 @@ function App() {
 
   const handlePresetApply = useCallback(
     (width: number, height: number) => {
-      setCropDimension('width', width)
-      setCropDimension('height', height)
+      recordHistory('Apply crop preset')
+      setCrop((previous: CropRect) => ({
+        ...previous,
+        width: clamp(Math.round(width), MIN_CROP_SIZE, cropLimits.width),
+        height: clamp(Math.round(height), MIN_CROP_SIZE, cropLimits.height),
+      }))
     },
-    [setCropDimension],
+    [cropLimits.height, cropLimits.width, recordHistory],
   )
 
+  const handleCenterCrosshair = useCallback(() => {
+    recordHistory('Center crosshair')
+    setCrosshair({
+      x: crop.width / 2,
+      y: crop.height / 2,
+    })
+  }, [crop.height, crop.width, recordHistory])
+
   const toggleCarouselCollapsed = useCallback(() => {
     setIsCarouselCollapsed((previous) => !previous)
   }, [])
@@ -534,30 +1998,116 @@ function App() {
       <header className="app-header">
         <div className="header-top">
           <h1>Wigglegram Studio</h1>
-          <button
-            type="button"
-            className={`theme-toggle ${theme === 'dark' ? 'is-dark' : ''}`}
-            onClick={toggleTheme}
-            aria-label={`Switch to ${theme === 'dark' ? 'light' : 'dark'} mode`}
-            aria-pressed={theme === 'dark'}
-          >
-            <span className="toggle-track">
-              <span className="toggle-icon sun" aria-hidden="true">
-                ☀️
-              </span>
-              <span className="toggle-icon moon" aria-hidden="true">
-                🌙
+          <div className="header-actions">
+            <button
+              type="button"
+              className="chip"
+              onClick={handleSaveProject}
+              disabled={isProjectBusy}
+            >
+              Save project
+            </button>
+            <button
+              type="button"
+              className="chip"
+              onClick={() => projectInputRef.current?.click()}
+              disabled={isProjectBusy}
+            >
+              Open project
+            </button>
+            <button
+              type="button"
+              className="chip"
+              onClick={() => setIsShortcutHelpOpen(true)}
+              title="Keyboard shortcuts (?)"
+            >
+              Shortcuts
+            </button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept={`${PROJECT_FILE_EXTENSION},.zip,application/zip`}
+              onChange={handleOpenProject}
+              className="project-input"
+              aria-hidden="true"
+            />
+            <button
+              type="button"
+              className={`theme-toggle ${theme === 'dark' ? 'is-dark' : ''}`}
+              onClick={toggleTheme}
+              aria-label={`Switch to ${theme === 'dark' ? 'light' : 'dark'} mode`}
+              aria-pressed={theme === 'dark'}
+            >
+              <span className="toggle-track">
+                <span className="toggle-icon sun" aria-hidden="true">
+                  ☀️
+                </span>
+                <span className="toggle-icon moon" aria-hidden="true">
+                  🌙
+                </span>
+                <span className="toggle-thumb" aria-hidden="true" />
               </span>
-              <span className="toggle-thumb" aria-hidden="true" />
-            </span>
-          </button>
+            </button>
+          </div>
         </div>
         <p>
           Load multiple frames, align them, and craft smooth wigglegrams or
           short loops.
         </p>
+        {projectError ? (
+          <p className="error-message">{projectError}</p>
+        ) : null}
+        {autosaveError ? (
+          <p className="error-message">{autosaveError}</p>
+        ) : lastSavedAt ? (
+          <p className="session-status">
+            Autosaved at {lastSavedAt.toLocaleTimeString()}
+          </p>
+        ) : null}
       </header>
 
+      {storedSession ? (
+        <div className="panel session-restore" role="status">
+          <span>
+            A previous session from{' '}
+            {new Date(storedSession.savedAt).toLocaleString()} was found.
+            Autosave is paused until you choose.
+          </span>
+          <div className="button-row">
+            <button
+              type="button"
+              className="primary"
+              onClick={handleRestoreSession}
+            >
+              Restore previous session
+            </button>
+            <button
+              type="button"
+              className="secondary"
+              onClick={handleDiscardSession}
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : sessionReadError ? (
+        <div className="panel session-restore" role="alert">
+          <span>
+            The previous session could not be read ({sessionReadError}).
+            Autosave is paused until you discard it.
+          </span>
+          <div className="button-row">
+            <button
+              type="button"
+              className="secondary"
+              onClick={handleDiscardSession}
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      ) : null}
+
       <section
         className={[
           'frame-manager',
@@ -598,7 +2148,9 @@ function App() {
               onPinToggle={handlePinToggle}
               onReplace={handleFrameFileSelect}
               onRemove={handleRemoveFrame}
+              onReorder={handleReorderFrame}
               onAddFrame={handleAddFrame}
+              onAddVideo={(file) => setVideoImport({ file, targetId: null })}
               minimumFrames={MINIMUM_FRAMES}
             />
           </div>
@@ -732,6 +2284,27 @@ function App() {
                   <span>{Math.round(crosshairOpacity * 100)}%</span>
                 </div>
               </label>
+              <div className="output-size-header">
+                <span>Compare with reference</span>
+              </div>
+              <div className="preset-buttons">
+                {COMPARE_MODE_OPTIONS.map((option) => (
+                  <button
+                    type="button"
+                    key={option.value}
+                    className={`chip ${compareMode === option.value ? 'is-active' : ''}`}
+                    aria-pressed={compareMode === option.value}
+                    onClick={() => setCompareMode(option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {compareMode !== 'onion' && !referenceImage ? (
+                <p className="hint">
+                  Pin a frame to compare the active frame with it.
+                </p>
+              ) : null}
               <label className="control-row">
                 <span>Reference opacity</span>
                 <div className="number-input">
@@ -748,6 +2321,63 @@ function App() {
                   <span>{Math.round(referenceOpacity * 100)}%</span>
                 </div>
               </label>
+              <label className="control-row checkbox">
+                <input
+                  type="checkbox"
+                  checked={loupe.enabled}
+                  onChange={(event) =>
+                    setLoupe((previous) => ({
+                      ...previous,
+                      enabled: event.target.checked,
+                    }))
+                  }
+                />
+                <span>Show loupe</span>
+              </label>
+              {loupe.enabled ? (
+                <>
+                  <label className="control-row">
+                    <span>Loupe zoom</span>
+                    <div className="number-input">
+                      <input
+                        type="range"
+                        min={MIN_LOUPE_ZOOM}
+                        max={MAX_LOUPE_ZOOM}
+                        step={1}
+                        value={loupe.zoom}
+                        onChange={(event) =>
+                          handleLoupeZoomChange(Number(event.target.value))
+                        }
+                      />
+                      <span>{Math.round(loupe.zoom)}×</span>
+                    </div>
+                  </label>
+                  <div className="preset-buttons">
+                    {LOUPE_VIEW_OPTIONS.map((option) => (
+                      <button
+                        type="button"
+                        key={option.value}
+                        className={`chip ${loupe.view === option.value ? 'is-active' : ''}`}
+                        aria-pressed={loupe.view === option.value}
+                        onClick={() =>
+                          setLoupe((previous) => ({
+                            ...previous,
+                            view: option.value,
+                          }))
+                        }
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="hint">
+                    Scroll over the viewport to zoom the loupe (Alt+scroll
+                    while moving a frame). Difference compares the active
+                    frame with the pinned one and turns black where they
+                    line up.
+                  </p>
+                </>
+              ) : null}
               <div className="preset-buttons">
                 {PRESET_SIZES.map((preset) => (
                   <button
@@ -760,18 +2390,43 @@ function App() {
                   </button>
                 ))}
               </div>
+              <OutputSizeControls
+                crop={crop}
+                value={outputSize}
+                onChange={setOutputSize}
+              />
+              <EdgeFillControls value={edgeFill} onChange={setEdgeFill} />
               <button
                 type="button"
                 className="secondary"
-                onClick={() =>
-                  setCrosshair({
-                    x: crop.width / 2,
-                    y: crop.height / 2,
-                  })
-                }
+                onClick={handleCenterCrosshair}
               >
                 Center crosshair
               </button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={handleCenterCrop}
+                disabled={!crop.x && !crop.y}
+              >
+                Center crop
+              </button>
+              <button
+                type="button"
+                className="secondary"
+                onClick={handleFitCrop}
+                disabled={!coveredArea?.length}
+              >
+                Fit crop to valid area
+              </button>
+              <label className="control-row checkbox">
+                <input
+                  type="checkbox"
+                  checked={fitKeepsAspect}
+                  onChange={(event) => setFitKeepsAspect(event.target.checked)}
+                />
+                <span>Fit keeps the aspect ratio</span>
+              </label>
             </div>
           </div>
         </div>
@@ -781,12 +2436,24 @@ function App() {
             <ImageViewport
               image={activeImage}
               referenceImage={referenceImage}
+              compareMode={compareMode}
+              frames={images}
               crop={crop}
+              stage={cropStage}
+              cropLimits={cropSizeLimits}
+              onCropChange={handleCropChange}
               crosshair={crosshair}
               onCrosshairChange={handleCrosshairChange}
               showCrosshair={showCrosshair}
               crosshairOpacity={crosshairOpacity}
               referenceOpacity={referenceOpacity}
+              coveredCropArea={coveredCropArea}
+              onFrameTransform={handleFrameTransform}
+              loupe={loupe}
+              onLoupeZoomChange={handleLoupeZoomChange}
+              pointReference={alignmentReference}
+              onControlPointAdd={handleControlPointAdd}
+              onControlPointMove={handleControlPointMove}
             />
           </div>
           <div className="editor-controls">
@@ -796,6 +2463,34 @@ function App() {
                 handleAdjustmentChange(activeImage.id, key, value)
               }
               onReset={() => handleResetAdjustments(activeImage.id)}
+              toneReferenceLabel={alignmentReference?.label ?? 'the reference'}
+              canMatchTone={canAlign}
+              isMatchingTone={isMatchingTone}
+              onMatchTone={handleMatchTone}
+            />
+            <AlignmentPanel
+              frames={images}
+              referenceLabel={alignmentReference?.label ?? 'the reference'}
+              results={alignmentResults}
+              isAligning={isAligning}
+              canAlign={canAlign}
+              canUndo={canUndoAlign}
+              onAlign={handleAutoAlign}
+              onUndo={handleUndoAlign}
+            />
+            {activeImage?.objectUrl ? (
+              <ControlPointsPanel
+                frame={activeImage}
+                reference={alignmentReference ?? null}
+                onSolve={handleSolveControlPoints}
+                onRemove={handleControlPointRemove}
+                onClear={() => handleControlPointsClear(activeImage.id)}
+              />
+            ) : null}
+            <HistoryPanel
+              past={history.past}
+              future={history.future}
+              onStep={handleHistoryStep}
             />
           </div>
         </div>
@@ -821,6 +2516,21 @@ function App() {
                 <span>ms</span>
               </div>
             </label>
+            <SequenceEditor
+              frames={images}
+              preset={sequence.preset}
+              steps={editableSteps}
+              onPresetChange={handleSequencePresetChange}
+              onStepsChange={handleSequenceStepsChange}
+            />
+            <InbetweenControls
+              value={inbetweens}
+              onChange={setInbetweens}
+              isGenerating={isGeneratingInbetweens}
+              canBake={canRenderInbetweens && !isExporting}
+              isBaking={isBakingInbetweens}
+              onBake={handleBakeInbetweens}
+            />
             <div className="export-controls">
               <label className="control-row">
                 <span>Format</span>
@@ -837,25 +2547,111 @@ function App() {
                   ))}
                 </select>
               </label>
-              <label className="control-row">
-                <span>Quality</span>
-                <select
-                  value={currentQuality}
-                  onChange={(event) => {
-                    const value = event.target.value as ExportQuality
-                    if (exportFormat === 'gif') {
-                      setGifQuality(value)
-                    } else {
-                      setVideoQuality(value)
+              {exportFormat === 'apng' ? (
+                <label className="control-row">
+                  <span>Compression</span>
+                  <select
+                    value={apngCompression}
+                    onChange={(event) =>
+                      setApngCompression(event.target.value as PngCompression)
                     }
-                  }}
-                >
-                  {qualityOptions.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
+                  >
+                    {(
+                      Object.keys(PNG_COMPRESSION_LABELS) as PngCompression[]
+                    ).map((value) => (
+                      <option key={value} value={value}>
+                        {PNG_COMPRESSION_LABELS[value]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : (
+                <label className="control-row">
+                  <span>Quality</span>
+                  <select
+                    value={currentQuality}
+                    onChange={(event) => {
+                      const value = event.target.value as ExportQuality
+                      if (exportFormat === 'gif') {
+                        setGifQuality(value)
+                      } else if (exportFormat === 'webp') {
+                        setWebpQuality(value)
+                      } else {
+                        setVideoQuality(value)
+                      }
+                    }}
+                  >
+                    {qualityOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {exportFormat === 'gif' ? (
+                <label className="control-row">
+                  <span>Dithering</span>
+                  <select
+                    value={gifDithering}
+                    onChange={(event) =>
+                      setGifDithering(event.target.value as GifDithering)
+                    }
+                  >
+                    {DITHERING_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+              {exportFormat === 'webp' ? (
+                <label className="control-row checkbox">
+                  <input
+                    type="checkbox"
+                    checked={webpLossless}
+                    onChange={(event) => setWebpLossless(event.target.checked)}
+                  />
+                  <span>Lossless</span>
+                </label>
+              ) : null}
+              {!currentFormatOption.isVideo ? (
+                <label className="control-row">
+                  <span>Plays</span>
+                  <div className="number-input">
+                    <input
+                      type="number"
+                      min={0}
+                      max={MAX_LOOP_COUNT}
+                      step={1}
+                      value={loopCount}
+                      onChange={(event) =>
+                        setLoopCount(
+                          clamp(
+                            Math.round(Number(event.target.value)) || 0,
+                            0,
+                            MAX_LOOP_COUNT,
+                          ),
+                        )
+                      }
+                    />
+                    <span>{loopCount === 0 ? 'forever' : 'times'}</span>
+                  </div>
+                </label>
+              ) : null}
+              <label className="control-row checkbox">
+                <input
+                  type="checkbox"
+                  checked={keepMetadata && exportFormat !== 'webp'}
+                  disabled={exportFormat === 'webp'}
+                  onChange={(event) => setKeepMetadata(event.target.checked)}
+                />
+                <span>
+                  {exportFormat === 'webp'
+                    ? 'WebP exports never include capture metadata'
+                    : 'Keep capture metadata (camera, focal length, time)'}
+                </span>
               </label>
             </div>
             <div className="button-row">
@@ -874,19 +2670,25 @@ function App() {
               >
                 {isExporting
                   ? 'Rendering…'
-                  : exportFormat === 'gif'
-                    ? 'Export GIF'
-                    : 'Export MP4'}
+                  : `Export ${currentFormatOption.label}`}
               </button>
             </div>
+            {isExporting ? (
+              <ExportProgressBar
+                progress={exportProgress}
+                withInbetweens={canRenderInbetweens}
+                remainingMs={exportRemainingMs}
+                onCancel={handleCancelExport}
+              />
+            ) : null}
             {errorMessage ? (
               <p className="error-message">{errorMessage}</p>
             ) : null}
             {exportResult ? (
               <div className="export-output">
-                {exportResult.format === 'gif' ? (
-                  <img src={exportResult.url} alt="Generated wigglegram" />
-                ) : (
+                {EXPORT_FORMAT_OPTIONS.find(
+                  (option) => option.value === exportResult.format,
+                )?.isVideo ? (
                   <video
                     src={exportResult.url}
                     controls
@@ -894,6 +2696,8 @@ function App() {
                     playsInline
                     muted
                   />
+                ) : (
+                  <img src={exportResult.url} alt="Generated wigglegram" />
                 )}
                 <div className="button-row">
                   <a
@@ -913,15 +2717,44 @@ function App() {
                 </div>
               </div>
             ) : null}
+            {stereoLeft && stereoRight ? (
+              <StereoExportPanel
+                frames={images}
+                leftId={stereoLeft.id}
+                rightId={stereoRight.id}
+                onFramesChange={(left, right) =>
+                  setStereoFrameIds({ left, right })
+                }
+                value={stereoSettings}
+                onChange={setStereoSettings}
+                canExport={canExportStereo}
+                isExporting={isStereoExporting}
+                onExport={handleStereoExport}
+              />
+            ) : null}
           </div>
         </div>
       </section>
 
+      {isShortcutHelpOpen ? (
+        <ShortcutHelp onClose={() => setIsShortcutHelpOpen(false)} />
+      ) : null}
+
+      {videoImport ? (
+        <VideoFrameExtractor
+          file={videoImport.file}
+          onExtract={handleVideoExtract}
+          onCancel={() => setVideoImport(null)}
+        />
+      ) : null}
+
       <section className="preview-section">
         <WigglePreview
           images={images}
           crop={crop}
-          intervalMs={wiggleSpeed}
+          fill={edgeFill}
+          steps={playbackSteps}
+          inbetweens={previewInbetweens}
           isPlaying={isPlaying}
         />
       </section>
@@ -0,0 +1,74 @@
+import type { LoadedImage } from '../types.ts'
+import type { FrameAlignment } from '../lib/alignment.ts'
+
+interface AlignmentPanelProps {
+  frames: LoadedImage[]
+  referenceLabel: string
+  results: FrameAlignment[] | null
+  isAligning: boolean
+  canAlign: boolean
+  canUndo: boolean
+  onAlign: () => void
+  onUndo: () => void
+}
+
+const LOW_CONFIDENCE = 0.5
+
+export function AlignmentPanel({
+  frames,
+  referenceLabel,
+  results,
+  isAligning,
+  canAlign,
+  canUndo,
+  onAlign,
+  onUndo,
+}: AlignmentPanelProps) {
+  return (
+    <div className="panel alignment-panel">
+      <div className="panel-header">
+        <h3>Auto-align</h3>
+        {canUndo ? (
+          <button type="button" className="link" onClick={onUndo}>
+            Undo
+          </button>
+        ) : null}
+      </div>
+      <div className="panel-body">
+        <p className="hint">
+          Matches the area under the crosshair in {referenceLabel} across every
+          other frame.
+        </p>
+        <button
+          type="button"
+          className="secondary"
+          disabled={!canAlign || isAligning}
+          onClick={onAlign}
+        >
+          {isAligning ? 'Aligning…' : 'Auto-align frames'}
+        </button>
+        {results ? (
+          <ul className="alignment-results">
+            {results.map((result) => {
+              const frame = frames.find((item) => item.id === result.id)
+              if (!frame) return null
+              return (
+                <li
+                  key={result.id}
+                  className={
+                    result.confidence < LOW_CONFIDENCE ? 'is-low' : undefined
+                  }
+                >
+                  <span>{frame.label}</span>
+                  <span className="alignment-confidence">
+                    {Math.round(result.confidence * 100)}%
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        ) : null}
+      </div>
+    </div>
+  )
+}
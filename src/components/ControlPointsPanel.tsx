@@ -0,0 +1,105 @@
+import type { LoadedImage } from '../types.ts'
+import {
+  MIN_CONTROL_POINT_PAIRS,
+  getControlPointResiduals,
+} from '../lib/controlPoints.ts'
+
+interface ControlPointsPanelProps {
+  frame: LoadedImage
+  reference: LoadedImage | null
+  onSolve: () => void
+  /** Removes the numbered point from every frame, keeping the rest matched. */
+  onRemove: (index: number) => void
+  onClear: () => void
+}
+
+// Residuals above this many pixels are flagged.
+const HIGH_RESIDUAL = 2
+
+export function ControlPointsPanel({
+  frame,
+  reference,
+  onSolve,
+  onRemove,
+  onClear,
+}: ControlPointsPanelProps) {
+  const points = frame.controlPoints ?? []
+  const isReference = !reference || reference.id === frame.id
+  const residuals = isReference
+    ? []
+    : getControlPointResiduals(frame, reference)
+  const pairCount = residuals.filter((residual) => residual !== null).length
+
+  return (
+    <div className="panel alignment-panel">
+      <div className="panel-header">
+        <h3>Control points</h3>
+        {points.length ? (
+          <button type="button" className="link" onClick={onClear}>
+            Clear
+          </button>
+        ) : null}
+      </div>
+      <div className="panel-body">
+        {isReference ? (
+          <p className="hint">
+            This is the reference frame. Switch the viewport to Points and
+            click features that appear in every frame.
+          </p>
+        ) : (
+          <p className="hint">
+            Switch the viewport to Points and click the same features, in the
+            same order, as on {reference.label}. {MIN_CONTROL_POINT_PAIRS} or
+            more pairs solve the offset, rotation and scale.
+          </p>
+        )}
+        {points.length ? (
+          <ul className="alignment-results">
+            {points.map((point, index) => {
+              const residual = residuals[index] ?? null
+              return (
+                <li
+                  key={index}
+                  className={
+                    residual !== null && residual > HIGH_RESIDUAL
+                      ? 'is-low'
+                      : undefined
+                  }
+                >
+                  <span>
+                    {index + 1} · {Math.round(point.x)}, {Math.round(point.y)}
+                  </span>
+                  <span className="alignment-confidence">
+                    {isReference
+                      ? 'reference'
+                      : residual === null
+                        ? 'no match'
+                        : `${residual.toFixed(1)} px`}
+                    <button
+                      type="button"
+                      className="link"
+                      onClick={() => onRemove(index)}
+                      aria-label={`Remove point ${index + 1}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        ) : null}
+        {isReference ? null : (
+          <button
+            type="button"
+            className="secondary"
+            disabled={pairCount < MIN_CONTROL_POINT_PAIRS}
+            onClick={onSolve}
+          >
+            Solve from points
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import type { EdgeFillMode, EdgeFillSettings } from '../types.ts'
+
+interface EdgeFillControlsProps {
+  value: EdgeFillSettings
+  onChange: (value: EdgeFillSettings) => void
+}
+
+const MODE_OPTIONS: Array<{ value: EdgeFillMode; label: string }> = [
+  { value: 'none', label: 'Transparent' },
+  { value: 'solid', label: 'Colour' },
+  { value: 'extend', label: 'Extend edges' },
+  { value: 'mirror', label: 'Mirror' },
+  { value: 'blur', label: 'Blur' },
+]
+
+export function EdgeFillControls({ value, onChange }: EdgeFillControlsProps) {
+  return (
+    <div className="edge-fill">
+      <div className="output-size-header">
+        <span>Uncovered edges</span>
+      </div>
+      <div className="preset-buttons">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            type="button"
+            key={option.value}
+            className={`chip ${value.mode === option.value ? 'is-active' : ''}`}
+            aria-pressed={value.mode === option.value}
+            onClick={() => onChange({ ...value, mode: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value.mode === 'solid' ? (
+        <label className="control-row">
+          <span>Fill colour</span>
+          <input
+            type="color"
+            value={value.color}
+            onChange={(event) =>
+              onChange({ ...value, color: event.target.value })
+            }
+          />
+        </label>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react'
+import type { CSSProperties } from 'react'
+import type {
+  CropRect,
+  Dimensions,
+  EdgeFillMode,
+  LoadedImage,
+} from '../types.ts'
+import { drawEdgeFill, ensureImageElement } from '../lib/rendering.ts'
+
+interface EdgeFillLayerProps {
+  image: LoadedImage
+  crop: CropRect
+  mode: Exclude<EdgeFillMode, 'none' | 'solid'>
+  /** Displayed size of the crop, which the canvas is drawn at. */
+  size: Dimensions
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * Draws a frame's edge fill behind it in the preview, with the same routine
+ * the exports use.
+ */
+export function EdgeFillLayer({
+  image,
+  crop,
+  mode,
+  size,
+  className,
+  style,
+}: EdgeFillLayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const { objectUrl, adjustments } = image
+  const width = Math.max(1, Math.round(size.width))
+  const height = Math.max(1, Math.round(size.height))
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !objectUrl || !crop.width) return
+    let isCurrent = true
+    ensureImageElement(objectUrl)
+      .then((element) => {
+        const context = canvas.getContext('2d')
+        if (!isCurrent || !context) return
+        context.clearRect(0, 0, canvas.width, canvas.height)
+        drawEdgeFill(
+          context,
+          element,
+          adjustments,
+          crop,
+          mode,
+          canvas.width / crop.width,
+        )
+      })
+      .catch(() => undefined)
+    return () => {
+      isCurrent = false
+    }
+  }, [adjustments, crop, height, mode, objectUrl, width])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      width={width}
+      height={height}
+      style={style}
+      aria-hidden="true"
+    />
+  )
+}
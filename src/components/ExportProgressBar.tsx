@@ -0,0 +1,61 @@
+import type { ExportProgress } from '../types.ts'
+import { getExportRatio } from '../lib/rendering.ts'
+
+interface ExportProgressBarProps {
+  progress: ExportProgress | null
+  /** Whether the export generates in-between frames. */
+  withInbetweens: boolean
+  /** Estimated time left, once enough of the export has run to tell. */
+  remainingMs: number | null
+  onCancel: () => void
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+const formatRemaining = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000))
+  return seconds >= 60
+    ? `About ${Math.floor(seconds / 60)} min ${seconds % 60} s left`
+    : `About ${seconds} s left`
+}
+
+export function ExportProgressBar({
+  progress,
+  withInbetweens,
+  remainingMs,
+  onCancel,
+}: ExportProgressBarProps) {
+  const ratio = progress ? getExportRatio(progress, withInbetweens) : 0
+  const stageLabel =
+    progress?.stage === 'encoding'
+      ? 'Encoding…'
+      : progress?.stage === 'inbetweens'
+        ? `Generating in-betweens ${progress.completed ?? 0} / ${progress.total ?? 0}…`
+        : progress?.total
+          ? `Rendering frame ${progress.completed ?? 0} / ${progress.total}…`
+          : 'Rendering…'
+
+  return (
+    <div className="export-progress">
+      <div className="export-progress-header">
+        <span>{stageLabel}</span>
+        <button type="button" className="link" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+      <progress max={1} value={ratio} aria-label="Export progress" />
+      <div className="export-progress-meta viewport-meta">
+        <span>{Math.round(ratio * 100)}%</span>
+        {remainingMs !== null ? (
+          <span>{formatRemaining(remainingMs)}</span>
+        ) : null}
+        {progress?.bytesWritten ? (
+          <span>{formatBytes(progress.bytesWritten)} written</span>
+        ) : null}
+      </div>
+    </div>
+  )
+}
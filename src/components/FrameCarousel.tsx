@@ -1,6 +1,7 @@
-import { useCallback, useMemo, useRef, useState } from 'react'
+import { useCallback, useRef, useState } from 'react'
 import type { ChangeEvent, DragEvent, MouseEvent } from 'react'
 import type { LoadedImage } from '../types.ts'
+import { describeMetadata } from '../lib/metadata.ts'
 
 interface FrameCarouselProps {
   frames: LoadedImage[]
@@ -12,11 +13,34 @@ interface FrameCarouselProps {
   onPinToggle: (id: string) => void
   onReplace: (id: string, file: File) => void
   onRemove: (id: string) => void
+  onReorder: (id: string, toIndex: number) => void
   onAddFrame: () => void
+  onAddVideo: (file: File) => void
   minimumFrames: number
 }
 
-const ACCEPTED_TYPES = 'image/*'
+const ACCEPTED_TYPES = 'image/*,.mpo,video/*'
+const FRAME_DRAG_TYPE = 'application/x-wigglegram-frame'
+
+type DropPlacement = 'before' | 'after'
+
+const formatCaptureTime = (capturedAt: string) => {
+  const date = new Date(capturedAt)
+  return Number.isNaN(date.getTime())
+    ? capturedAt
+    : date.toLocaleString(undefined, {
+        dateStyle: 'medium',
+        timeStyle: 'short',
+      })
+}
+
+const isFrameDrag = (event: DragEvent<HTMLElement>) =>
+  Array.from(event.dataTransfer?.types ?? []).includes(FRAME_DRAG_TYPE)
+
+const getDropPlacement = (event: DragEvent<HTMLElement>): DropPlacement => {
+  const rect = event.currentTarget.getBoundingClientRect()
+  return event.clientX < rect.left + rect.width / 2 ? 'before' : 'after'
+}
 
 interface FrameCardProps {
   frame: LoadedImage
@@ -28,7 +52,14 @@ interface FrameCardProps {
   onPinToggle: (id: string) => void
   onReplace: (id: string, file: File) => void
   onRemove: (id: string) => void
+  onMove: (id: string, delta: number) => void
   disableRemove: boolean
+  isDragging: boolean
+  dropPlacement: DropPlacement | null
+  onFrameDragStart: (id: string) => void
+  onFrameDragOver: (id: string, placement: DropPlacement) => void
+  onFrameDrop: (id: string, placement: DropPlacement) => void
+  onFrameDragEnd: () => void
 }
 
 const FrameCard = ({
@@ -39,12 +70,22 @@ const FrameCard = ({
   onPinToggle,
   onReplace,
   onRemove,
+  onMove,
   disableRemove,
   isFloating,
   isCollapsed,
+  isDragging,
+  dropPlacement,
+  onFrameDragStart,
+  onFrameDragOver,
+  onFrameDrop,
+  onFrameDragEnd,
 }: FrameCardProps) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const [isDragOver, setIsDragOver] = useState(false)
+  const capture = frame.metadata
+    ? describeMetadata(frame.metadata, formatCaptureTime).join(' · ')
+    : ''
 
   const handleFileChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
@@ -87,13 +128,30 @@ const FrameCard = ({
     [frame.id, onPinToggle],
   )
 
-  const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
-    event.preventDefault()
-    if (event.dataTransfer) {
-      event.dataTransfer.dropEffect = 'copy'
-    }
-    setIsDragOver(true)
-  }, [])
+  const handleDragStart = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.dataTransfer.setData(FRAME_DRAG_TYPE, frame.id)
+      event.dataTransfer.effectAllowed = 'move'
+      onFrameDragStart(frame.id)
+    },
+    [frame.id, onFrameDragStart],
+  )
+
+  const handleDragOver = useCallback(
+    (event: DragEvent<HTMLDivElement>) => {
+      event.preventDefault()
+      if (isFrameDrag(event)) {
+        event.dataTransfer.dropEffect = 'move'
+        onFrameDragOver(frame.id, getDropPlacement(event))
+        return
+      }
+      if (event.dataTransfer) {
+        event.dataTransfer.dropEffect = 'copy'
+      }
+      setIsDragOver(true)
+    },
+    [frame.id, onFrameDragOver],
+  )
 
   const handleDragLeave = useCallback(() => {
     setIsDragOver(false)
@@ -103,12 +161,16 @@ const FrameCard = ({
     (event: DragEvent<HTMLDivElement>) => {
       event.preventDefault()
       setIsDragOver(false)
+      if (isFrameDrag(event)) {
+        onFrameDrop(frame.id, getDropPlacement(event))
+        return
+      }
       const file = event.dataTransfer?.files?.[0]
       if (file) {
         onReplace(frame.id, file)
       }
     },
-    [frame.id, onReplace],
+    [frame.id, onFrameDrop, onReplace],
   )
 
   return (
@@ -121,18 +183,32 @@ const FrameCard = ({
         frame.objectUrl ? '' : 'is-empty',
         isDragOver ? 'is-drag-over' : '',
         isCollapsed ? 'is-compact' : '',
+        isDragging ? 'is-dragging' : '',
+        dropPlacement ? `is-drop-${dropPlacement}` : '',
       ]
         .filter(Boolean)
         .join(' ')}
       role="button"
       tabIndex={0}
+      aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight"
+      draggable
       onClick={handleCardClick}
       onKeyDown={(event) => {
+        if (event.target !== event.currentTarget) return
         if (event.key === 'Enter' || event.key === ' ') {
           event.preventDefault()
           onSelect(frame.id)
         }
+        if (
+          event.altKey &&
+          (event.key === 'ArrowLeft' || event.key === 'ArrowRight')
+        ) {
+          event.preventDefault()
+          onMove(frame.id, event.key === 'ArrowLeft' ? -1 : 1)
+        }
       }}
+      onDragStart={handleDragStart}
+      onDragEnd={onFrameDragEnd}
       onDragOver={handleDragOver}
       onDragLeave={handleDragLeave}
       onDrop={handleDrop}
@@ -154,6 +230,11 @@ const FrameCard = ({
           ) : (
             <span className="frame-card-filename muted">No file selected</span>
           )}
+          {capture ? (
+            <span className="frame-card-capture" title={capture}>
+              {capture}
+            </span>
+          ) : null}
         </div>
         <div className="frame-card-actions">
           <button
@@ -207,17 +288,75 @@ export function FrameCarousel({
   onPinToggle,
   onReplace,
   onRemove,
+  onReorder,
   onAddFrame,
+  onAddVideo,
   minimumFrames,
 }: FrameCarouselProps) {
-  const orderedFrames = useMemo(() => {
-    const pinnedFrame = frames.find((frame) => frame.id === pinnedId)
-    const remaining = frames.filter((frame) => frame.id !== pinnedId)
-    return pinnedFrame ? [pinnedFrame, ...remaining] : remaining
-  }, [frames, pinnedId])
+  const videoInputRef = useRef<HTMLInputElement | null>(null)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{
+    id: string
+    placement: DropPlacement
+  } | null>(null)
 
   const disableRemove = frames.length <= minimumFrames
 
+  const handleMove = useCallback(
+    (id: string, delta: number) => {
+      const index = frames.findIndex((frame) => frame.id === id)
+      const target = index + delta
+      if (index < 0 || target < 0 || target >= frames.length) return
+      onReorder(id, target)
+    },
+    [frames, onReorder],
+  )
+
+  const handleVideoChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0]
+      if (file) {
+        onAddVideo(file)
+      }
+      event.target.value = ''
+    },
+    [onAddVideo],
+  )
+
+  const handleFrameDragEnd = useCallback(() => {
+    setDraggingId(null)
+    setDropTarget(null)
+  }, [])
+
+  const handleFrameDragOver = useCallback(
+    (id: string, placement: DropPlacement) => {
+      setDropTarget((previous) =>
+        previous?.id === id && previous.placement === placement
+          ? previous
+          : { id, placement },
+      )
+    },
+    [],
+  )
+
+  const handleFrameDrop = useCallback(
+    (targetId: string, placement: DropPlacement) => {
+      const sourceId = draggingId
+      handleFrameDragEnd()
+      if (!sourceId || sourceId === targetId) return
+      const sourceIndex = frames.findIndex((frame) => frame.id === sourceId)
+      let targetIndex = frames.findIndex((frame) => frame.id === targetId)
+      if (sourceIndex < 0 || targetIndex < 0) return
+      if (placement === 'after') targetIndex += 1
+      // Removing the source first shifts later positions down by one.
+      if (sourceIndex < targetIndex) targetIndex -= 1
+      if (targetIndex !== sourceIndex) {
+        onReorder(sourceId, targetIndex)
+      }
+    },
+    [draggingId, frames, handleFrameDragEnd, onReorder],
+  )
+
   return (
     <div
       className={[
@@ -231,7 +370,7 @@ export function FrameCarousel({
       aria-label="Frames"
     >
       <div className="frame-carousel-track">
-        {orderedFrames.map((frame) => (
+        {frames.map((frame) => (
           <FrameCard
             key={frame.id}
             frame={frame}
@@ -242,8 +381,21 @@ export function FrameCarousel({
             onPinToggle={onPinToggle}
             onReplace={onReplace}
             onRemove={onRemove}
+            onMove={handleMove}
             disableRemove={disableRemove}
             isCollapsed={isCollapsed}
+            isDragging={frame.id === draggingId}
+            dropPlacement={
+              draggingId &&
+              draggingId !== frame.id &&
+              dropTarget?.id === frame.id
+                ? dropTarget.placement
+                : null
+            }
+            onFrameDragStart={setDraggingId}
+            onFrameDragOver={handleFrameDragOver}
+            onFrameDrop={handleFrameDrop}
+            onFrameDragEnd={handleFrameDragEnd}
           />
         ))}
         <button
@@ -260,6 +412,27 @@ export function FrameCarousel({
           <span className="add-frame-icon">＋</span>
           <span>Add frame</span>
         </button>
+        <button
+          type="button"
+          className={[
+            'frame-card',
+            'add-frame',
+            isCollapsed ? 'is-compact' : '',
+          ]
+            .filter(Boolean)
+            .join(' ')}
+          onClick={() => videoInputRef.current?.click()}
+        >
+          <span className="add-frame-icon">🎞</span>
+          <span>From video</span>
+        </button>
+        <input
+          ref={videoInputRef}
+          type="file"
+          accept="video/*"
+          className="frame-card-input"
+          onChange={handleVideoChange}
+        />
       </div>
     </div>
   )
@@ -0,0 +1,72 @@
+import type { HistoryEntry } from '../lib/history.ts'
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  onStep: (steps: number) => void
+}
+
+export function HistoryPanel({ past, future, onStep }: HistoryPanelProps) {
+  return (
+    <div className="panel history-panel">
+      <div className="panel-header">
+        <h3>History</h3>
+        <div className="history-actions">
+          <button
+            type="button"
+            className="link"
+            onClick={() => onStep(-1)}
+            disabled={!past.length}
+            title="Undo (Ctrl/Cmd+Z)"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            className="link"
+            onClick={() => onStep(1)}
+            disabled={!future.length}
+            title="Redo (Shift+Ctrl/Cmd+Z)"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      <div className="panel-body">
+        <ol className="history-list">
+          <li>
+            <button
+              type="button"
+              className={past.length ? '' : 'is-current'}
+              onClick={() => onStep(-past.length)}
+            >
+              Start
+            </button>
+          </li>
+          {past.map((entry, index) => (
+            <li key={`past-${index}`}>
+              <button
+                type="button"
+                className={index === past.length - 1 ? 'is-current' : ''}
+                onClick={() => onStep(index + 1 - past.length)}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+          {future.map((entry, index) => (
+            <li key={`future-${index}`}>
+              <button
+                type="button"
+                className="is-undone"
+                onClick={() => onStep(index + 1)}
+              >
+                {entry.label}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
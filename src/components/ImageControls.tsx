@@ -1,4 +1,5 @@
-import type { LoadedImage } from '../types.ts'
+import type { LoadedImage, ToneAdjustments } from '../types.ts'
+import { TONE_RANGES } from '../lib/tone.ts'
 
 interface ControlInputProps {
   id: string
@@ -49,6 +50,18 @@ const ControlInput = ({
   </label>
 )
 
+const TONE_CONTROLS: Array<{
+  key: keyof ToneAdjustments
+  label: string
+  suffix?: string
+}> = [
+  { key: 'exposure', label: 'Exposure', suffix: 'EV' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'temperature', label: 'Temperature' },
+  { key: 'tint', label: 'Tint' },
+  { key: 'saturation', label: 'Saturation' },
+]
+
 interface ImageControlsProps {
   image: LoadedImage
   onAdjustmentChange: (
@@ -56,12 +69,21 @@ interface ImageControlsProps {
     value: number,
   ) => void
   onReset: () => void
+  /** Frame the other frames' tone is matched to. */
+  toneReferenceLabel: string
+  canMatchTone: boolean
+  isMatchingTone: boolean
+  onMatchTone: () => void
 }
 
 export function ImageControls({
   image,
   onAdjustmentChange,
   onReset,
+  toneReferenceLabel,
+  canMatchTone,
+  isMatchingTone,
+  onMatchTone,
 }: ImageControlsProps) {
   const { offsetX, offsetY, rotation, scale } = image.adjustments
 
@@ -116,6 +138,34 @@ export function ImageControls({
             suffix="×"
           />
         </div>
+        <div className="tone-controls">
+          <h4>Tone</h4>
+          <div className="control-grid">
+            {TONE_CONTROLS.map(({ key, label, suffix }) => (
+              <ControlInput
+                key={key}
+                id={`${image.id}-${key}`}
+                label={label}
+                value={image.adjustments[key]}
+                {...TONE_RANGES[key]}
+                onChange={(value) => onAdjustmentChange(key, value)}
+                suffix={suffix}
+              />
+            ))}
+          </div>
+          <p className="hint">
+            Auto-match sets every other frame's tone to match{' '}
+            {toneReferenceLabel} inside the crop.
+          </p>
+          <button
+            type="button"
+            className="secondary"
+            disabled={!canMatchTone || isMatchingTone}
+            onClick={onMatchTone}
+          >
+            {isMatchingTone ? 'Matching…' : 'Auto-match to reference'}
+          </button>
+        </div>
       </div>
     </div>
   )
@@ -1,36 +1,151 @@
 import type { PointerEvent } from 'react'
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import type { Dimensions, LoadedImage, Point } from '../types.ts'
+import type {
+  CompareMode,
+  CropRect,
+  Dimensions,
+  LoadedImage,
+  LoupeSettings,
+  Point,
+} from '../types.ts'
+import {
+  frameToStagePoint,
+  getControlPointResiduals,
+  stageToFramePoint,
+} from '../lib/controlPoints.ts'
+import {
+  CROP_RESIZE_HANDLES,
+  dragCropHandle,
+  getCropOrigin,
+} from '../lib/crop.ts'
+import type { CropHandle, CropSizeLimits } from '../lib/crop.ts'
+import {
+  transformByPointers,
+  transformByRotateHandle,
+  transformByWheel,
+} from '../lib/frameGesture.ts'
+import type { FrameTransform } from '../lib/frameGesture.ts'
+import { getLoupeWheelZoom } from '../lib/loupe.ts'
+import { getToneFilter } from '../lib/tone.ts'
+import { Loupe } from './Loupe.tsx'
+import { ToneFilters } from './ToneFilters.tsx'
 
 interface ImageViewportProps {
   image: LoadedImage
   referenceImage?: LoadedImage | null
-  crop: Dimensions
+  /** How the reference is shown against the active frame. */
+  compareMode?: CompareMode
+  /** Every frame, for the onion skin. */
+  frames?: LoadedImage[]
+  crop: CropRect
+  /** Area shown around the crop; see getCropStage. */
+  stage: Dimensions
+  cropLimits: CropSizeLimits
+  onCropChange: (crop: CropRect) => void
   crosshair: Point
   onCrosshairChange: (point: Point) => void
   showCrosshair: boolean
   crosshairOpacity?: number
   referenceOpacity?: number
+  /**
+   * The part of the crop every frame covers, in crop pixels; see
+   * getCoveredCropArea. Null when the crop is fully covered.
+   */
+  coveredCropArea?: Point[] | null
+  /** Called while the frame is dragged, zoomed or rotated in the viewport. */
+  onFrameTransform?: (id: string, transform: FrameTransform) => void
+  loupe?: LoupeSettings
+  /** Called when the wheel zooms the loupe. */
+  onLoupeZoomChange?: (zoom: number) => void
+  /** Frame whose control points the active frame's points match. */
+  pointReference?: LoadedImage | null
+  /** Points are in the frame's own pixels; see LoadedImage. */
+  onControlPointAdd?: (id: string, point: Point) => void
+  onControlPointMove?: (id: string, index: number, point: Point) => void
 }
 
+type PointerMode = 'crosshair' | 'frame' | 'points'
+
+interface CropDrag {
+  handle: CropHandle
+  pointerId: number
+  start: Point
+  startCrop: CropRect
+}
+
+const TONE_FILTER_PREFIX = 'viewport-tone'
+// How far the rotate handle sits from the frame centre, at most, as a share
+// of the stage's shorter side.
+const ROTATE_HANDLE_REACH = 0.4
+// Checkerboard squares span this share of the viewport's shorter side.
+const CHECKER_SHARE = 1 / 8
+const MIN_CHECKER_SIZE = 16
+
+// Gap between the magnified point and the loupe, in screen pixels.
+const LOUPE_GAP = 20
+const FRAME_MODE_HINT =
+  'Drag to move the frame, scroll or pinch to scale, twist or use the ' +
+  'handle to rotate'
+
+const getFrameTransform = ({
+  offsetX,
+  offsetY,
+  rotation,
+  scale,
+}: FrameTransform): FrameTransform => ({ offsetX, offsetY, rotation, scale })
+
 const clamp = (value: number, min: number, max: number) =>
   Math.min(max, Math.max(min, value))
 
 export function ImageViewport({
   image,
   referenceImage,
+  compareMode = 'overlay',
+  frames = [],
   crop,
+  stage,
+  cropLimits,
+  onCropChange,
   crosshair,
   onCrosshairChange,
   showCrosshair,
   crosshairOpacity = 0.5,
   referenceOpacity = 0.32,
+  coveredCropArea = null,
+  onFrameTransform,
+  loupe,
+  onLoupeZoomChange,
+  pointReference = null,
+  onControlPointAdd,
+  onControlPointMove,
 }: ImageViewportProps) {
   const containerRef = useRef<HTMLDivElement | null>(null)
+  const cropDragRef = useRef<CropDrag | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [pointerMode, setPointerMode] = useState<PointerMode>('crosshair')
+  // Frame gestures apply each pointer move to the transform they last
+  // produced, so twists and long drags don't wrap or drift.
+  const framePointersRef = useRef(new Map<number, Point>())
+  const frameTransformRef = useRef<FrameTransform | null>(null)
+  const rotateDragRef = useRef<{ pointerId: number; last: Point } | null>(
+    null,
+  )
+  const canTransformFrame = Boolean(image.objectUrl && onFrameTransform)
+  const isFrameMode = pointerMode === 'frame' && canTransformFrame
+  const isPointMode =
+    pointerMode === 'points' && Boolean(image.objectUrl && onControlPointAdd)
+  const pointDragRef = useRef<{ pointerId: number; index: number } | null>(
+    null,
+  )
+  const isLoupeShown = Boolean(loupe?.enabled && image.objectUrl)
+  /** Where the split compare line sits, as a share of the width. */
+  const [splitPosition, setSplitPosition] = useState(0.5)
+  const splitDragRef = useRef<number | null>(null)
+  /** Where the pointer hovers, from the frames' centre, for the loupe. */
+  const [hoverPoint, setHoverPoint] = useState<Point | null>(null)
   const [displaySize, setDisplaySize] = useState(() => ({
-    width: crop.width,
-    height: crop.height,
+    width: stage.width,
+    height: stage.height,
   }))
 
   useEffect(() => {
@@ -54,55 +169,316 @@ export function ImageViewport({
     return () => {
       window.removeEventListener('resize', updateSize)
     }
-  }, [crop.height, crop.width])
+  }, [stage.height, stage.width])
 
-  const displayScaleX = crop.width ? displaySize.width / crop.width : 1
-  const displayScaleY = crop.height ? displaySize.height / crop.height : 1
+  const displayScaleX = stage.width ? displaySize.width / stage.width : 1
+  const displayScaleY = stage.height ? displaySize.height / stage.height : 1
+  const cropOrigin = getCropOrigin(crop, stage)
 
-  const handlePointerPosition = useCallback(
-    (clientX: number, clientY: number) => {
+  /** Converts a client position to stage pixels. */
+  const toStagePoint = useCallback(
+    (clientX: number, clientY: number): Point | null => {
       const element = containerRef.current
-      if (!element) return
-
+      if (!element) return null
       const rect = element.getBoundingClientRect()
-      const scaleX = crop.width !== 0 ? crop.width / rect.width : 1
-      const scaleY = crop.height !== 0 ? crop.height / rect.height : 1
+      return {
+        x: (clientX - rect.left) * (rect.width ? stage.width / rect.width : 1),
+        y:
+          (clientY - rect.top) * (rect.height ? stage.height / rect.height : 1),
+      }
+    },
+    [stage.height, stage.width],
+  )
 
-      const x = clamp((clientX - rect.left) * scaleX, 0, crop.width)
-      const y = clamp((clientY - rect.top) * scaleY, 0, crop.height)
+  /** Converts a client position to stage pixels from the frames' centre. */
+  const toCentredPoint = useCallback(
+    (clientX: number, clientY: number): Point | null => {
+      const point = toStagePoint(clientX, clientY)
+      return point
+        ? { x: point.x - stage.width / 2, y: point.y - stage.height / 2 }
+        : null
+    },
+    [stage.height, stage.width, toStagePoint],
+  )
 
-      onCrosshairChange({ x, y })
+  const applyFrameTransform = useCallback(
+    (transform: FrameTransform) => {
+      frameTransformRef.current = transform
+      onFrameTransform?.(image.id, transform)
     },
-    [crop.height, crop.width, onCrosshairChange],
+    [image.id, onFrameTransform],
+  )
+
+  /** The transform the next gesture step builds on. */
+  const getLatestTransform = useCallback(
+    () => frameTransformRef.current ?? getFrameTransform(image.adjustments),
+    [image.adjustments],
+  )
+
+  const handlePointerPosition = useCallback(
+    (clientX: number, clientY: number) => {
+      const point = toStagePoint(clientX, clientY)
+      if (!point) return
+
+      onCrosshairChange({
+        x: clamp(point.x - cropOrigin.x, 0, crop.width),
+        y: clamp(point.y - cropOrigin.y, 0, crop.height),
+      })
+    },
+    [
+      crop.height,
+      crop.width,
+      cropOrigin.x,
+      cropOrigin.y,
+      onCrosshairChange,
+      toStagePoint,
+    ],
   )
 
   const handlePointerDown = useCallback(
     (event: PointerEvent<HTMLDivElement>) => {
       if (event.button !== 0) return
       event.preventDefault()
+      if (isFrameMode) {
+        const point = toCentredPoint(event.clientX, event.clientY)
+        if (!point) return
+        event.currentTarget.setPointerCapture(event.pointerId)
+        if (!framePointersRef.current.size) frameTransformRef.current = null
+        framePointersRef.current.set(event.pointerId, point)
+        return
+      }
+      if (isPointMode) {
+        const point = toCentredPoint(event.clientX, event.clientY)
+        const framePoint = point && stageToFramePoint(image, point)
+        if (!framePoint) return
+        onControlPointAdd?.(image.id, framePoint)
+        // Keep dragging the new point until the button is released.
+        event.currentTarget.setPointerCapture(event.pointerId)
+        pointDragRef.current = {
+          pointerId: event.pointerId,
+          index: image.controlPoints?.length ?? 0,
+        }
+        return
+      }
       setIsDragging(true)
       handlePointerPosition(event.clientX, event.clientY)
     },
-    [handlePointerPosition],
+    [
+      handlePointerPosition,
+      image,
+      isFrameMode,
+      isPointMode,
+      onControlPointAdd,
+      toCentredPoint,
+    ],
+  )
+
+  /** Moves the dragged control point; returns whether it handled the event. */
+  const dragControlPoint = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      const drag = pointDragRef.current
+      if (!drag || drag.pointerId !== event.pointerId) return false
+      event.preventDefault()
+      const point = toCentredPoint(event.clientX, event.clientY)
+      const framePoint = point && stageToFramePoint(image, point)
+      if (framePoint) onControlPointMove?.(image.id, drag.index, framePoint)
+      return true
+    },
+    [image, onControlPointMove, toCentredPoint],
   )
 
   const handlePointerMove = useCallback(
     (event: PointerEvent<HTMLDivElement>) => {
+      if (isLoupeShown) {
+        setHoverPoint(toCentredPoint(event.clientX, event.clientY))
+      }
+      if (dragControlPoint(event)) return
+      const pointers = framePointersRef.current
+      if (pointers.has(event.pointerId)) {
+        const point = toCentredPoint(event.clientX, event.clientY)
+        if (!point) return
+        event.preventDefault()
+        // Pinches use the first two pointers; a third one is ignored.
+        const ids = [...pointers.keys()].slice(0, 2)
+        if (!ids.includes(event.pointerId)) return
+        const from = ids.map((id) => pointers.get(id) as Point)
+        pointers.set(event.pointerId, point)
+        const to = ids.map((id) => pointers.get(id) as Point)
+        applyFrameTransform(
+          transformByPointers(getLatestTransform(), from, to),
+        )
+        return
+      }
       if (!isDragging) return
       event.preventDefault()
       handlePointerPosition(event.clientX, event.clientY)
     },
-    [handlePointerPosition, isDragging],
+    [
+      applyFrameTransform,
+      dragControlPoint,
+      getLatestTransform,
+      handlePointerPosition,
+      isDragging,
+      isLoupeShown,
+      toCentredPoint,
+    ],
   )
 
-  const handlePointerUp = useCallback(() => {
+  const handlePointerUp = useCallback((event: PointerEvent<HTMLElement>) => {
+    framePointersRef.current.delete(event.pointerId)
+    if (pointDragRef.current?.pointerId === event.pointerId) {
+      pointDragRef.current = null
+    }
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
     setIsDragging(false)
   }, [])
 
-  const handlePointerCancel = useCallback(() => {
+  const handlePointerLeave = useCallback(() => {
     setIsDragging(false)
+    setHoverPoint(null)
   }, [])
 
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element || (!isFrameMode && !isLoupeShown)) return
+
+    const handleWheel = (event: WheelEvent) => {
+      // The wheel zooms the loupe, or with Alt held while moving frames.
+      if (isLoupeShown && loupe && (!isFrameMode || event.altKey)) {
+        event.preventDefault()
+        onLoupeZoomChange?.(getLoupeWheelZoom(loupe.zoom, event))
+        return
+      }
+      const pivot = toCentredPoint(event.clientX, event.clientY)
+      if (!isFrameMode || !pivot) return
+      // Zoom the frame instead of scrolling the page.
+      event.preventDefault()
+      applyFrameTransform(
+        transformByWheel(getLatestTransform(), pivot, event),
+      )
+    }
+
+    // React's wheel listeners are passive and can't prevent scrolling.
+    element.addEventListener('wheel', handleWheel, { passive: false })
+    return () => element.removeEventListener('wheel', handleWheel)
+  }, [
+    applyFrameTransform,
+    getLatestTransform,
+    isFrameMode,
+    isLoupeShown,
+    loupe,
+    onLoupeZoomChange,
+    toCentredPoint,
+  ])
+
+  useEffect(() => {
+    // Later gestures start from the adjustments as they are then, which may
+    // have been rounded or changed elsewhere in the meantime.
+    if (!framePointersRef.current.size && !rotateDragRef.current) {
+      frameTransformRef.current = null
+    }
+  }, [image.adjustments, image.id])
+
+  const handleRotatePointerDown = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return
+      const point = toCentredPoint(event.clientX, event.clientY)
+      if (!point) return
+      event.stopPropagation()
+      event.preventDefault()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      frameTransformRef.current = null
+      rotateDragRef.current = { pointerId: event.pointerId, last: point }
+    },
+    [toCentredPoint],
+  )
+
+  const handleRotatePointerMove = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      const drag = rotateDragRef.current
+      if (!drag || drag.pointerId !== event.pointerId) return
+      const point = toCentredPoint(event.clientX, event.clientY)
+      if (!point) return
+      event.preventDefault()
+      applyFrameTransform(
+        transformByRotateHandle(getLatestTransform(), drag.last, point),
+      )
+      drag.last = point
+    },
+    [applyFrameTransform, getLatestTransform, toCentredPoint],
+  )
+
+  const handleRotatePointerUp = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (rotateDragRef.current?.pointerId !== event.pointerId) return
+      rotateDragRef.current = null
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId)
+      }
+    },
+    [],
+  )
+
+  const handleCropPointerDown = useCallback(
+    (handle: CropHandle, event: PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return
+      const start = toStagePoint(event.clientX, event.clientY)
+      if (!start) return
+      // Keep the viewport from treating this as a crosshair drag.
+      event.stopPropagation()
+      event.preventDefault()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      cropDragRef.current = {
+        handle,
+        pointerId: event.pointerId,
+        start,
+        startCrop: crop,
+      }
+    },
+    [crop, toStagePoint],
+  )
+
+  const handleCropPointerMove = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      const drag = cropDragRef.current
+      if (!drag || drag.pointerId !== event.pointerId) return
+      const point = toStagePoint(event.clientX, event.clientY)
+      if (!point) return
+      event.preventDefault()
+      onCropChange(
+        dragCropHandle(
+          drag.startCrop,
+          drag.handle,
+          { x: point.x - drag.start.x, y: point.y - drag.start.y },
+          stage,
+          cropLimits,
+        ),
+      )
+    },
+    [cropLimits, onCropChange, stage, toStagePoint],
+  )
+
+  const handleCropPointerUp = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (cropDragRef.current?.pointerId !== event.pointerId) return
+      cropDragRef.current = null
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId)
+      }
+    },
+    [],
+  )
+
+  const getCropHandleProps = (handle: CropHandle) => ({
+    onPointerDown: (event: PointerEvent<HTMLElement>) =>
+      handleCropPointerDown(handle, event),
+    onPointerMove: handleCropPointerMove,
+    onPointerUp: handleCropPointerUp,
+    onPointerCancel: handleCropPointerUp,
+  })
+
   const crosshairStyle = useMemo(() => {
     if (!showCrosshair) return undefined
     const left = crop.width ? (crosshair.x / crop.width) * 100 : 0
@@ -114,6 +490,23 @@ export function ImageViewport({
     }
   }, [crosshair.x, crosshair.y, crop.height, crop.width, crosshairOpacity, showCrosshair])
 
+  const cropWindowStyle = useMemo(
+    () => ({
+      left: `${(cropOrigin.x / stage.width) * 100}%`,
+      top: `${(cropOrigin.y / stage.height) * 100}%`,
+      width: `${(crop.width / stage.width) * 100}%`,
+      height: `${(crop.height / stage.height) * 100}%`,
+    }),
+    [
+      crop.height,
+      crop.width,
+      cropOrigin.x,
+      cropOrigin.y,
+      stage.height,
+      stage.width,
+    ],
+  )
+
   const makeTransform = useCallback(
     (target: LoadedImage) => {
       const referenceWidth = target.naturalWidth ?? crop.width
@@ -126,6 +519,11 @@ export function ImageViewport({
         width: `${baseWidth}px`,
         height: `${baseHeight}px`,
         transform: `translate(calc(-50% + ${translateX}px), calc(-50% + ${translateY}px)) rotate(${target.adjustments.rotation}deg) scale(${target.adjustments.scale})`,
+        filter: getToneFilter(
+          TONE_FILTER_PREFIX,
+          target.id,
+          target.adjustments,
+        ),
       }
     },
     [crop.height, crop.width, displayScaleX, displayScaleY],
@@ -140,23 +538,216 @@ export function ImageViewport({
     if (!referenceImage) return undefined
     return {
       ...makeTransform(referenceImage),
-      opacity: referenceOpacity,
+      opacity: compareMode === 'overlay' ? referenceOpacity : undefined,
+    }
+  }, [compareMode, makeTransform, referenceImage, referenceOpacity])
+
+  // Onion skin layers weigh 1/2, 1/3, … over the active frame, which
+  // averages every frame equally.
+  const onionFrames = useMemo(
+    () =>
+      compareMode === 'onion'
+        ? frames.filter(
+            (frame) => frame.id !== image.id && frame.objectUrl,
+          )
+        : [],
+    [compareMode, frames, image.id],
+  )
+
+  /** Wraps the reference for the modes that show only part of it. */
+  const compareLayerStyle = useMemo(() => {
+    if (compareMode === 'split') {
+      return { clipPath: `inset(0 0 0 ${splitPosition * 100}%)` }
+    }
+    if (compareMode === 'checkerboard') {
+      const size = Math.max(
+        MIN_CHECKER_SIZE,
+        Math.round(
+          Math.min(displaySize.width, displaySize.height) * CHECKER_SHARE,
+        ),
+      )
+      return {
+        maskSize: `${size * 2}px ${size * 2}px`,
+        WebkitMaskSize: `${size * 2}px ${size * 2}px`,
+      }
+    }
+    return undefined
+  }, [compareMode, displaySize.height, displaySize.width, splitPosition])
+
+  const handleSplitPointerDown = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return
+      event.stopPropagation()
+      event.preventDefault()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      splitDragRef.current = event.pointerId
+    },
+    [],
+  )
+
+  const handleSplitPointerMove = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (splitDragRef.current !== event.pointerId) return
+      const point = toStagePoint(event.clientX, event.clientY)
+      if (!point || !stage.width) return
+      event.preventDefault()
+      setSplitPosition(clamp(point.x / stage.width, 0, 1))
+    },
+    [stage.width, toStagePoint],
+  )
+
+  const handleSplitPointerUp = useCallback(
+    (event: PointerEvent<HTMLElement>) => {
+      if (splitDragRef.current !== event.pointerId) return
+      splitDragRef.current = null
+      if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+        event.currentTarget.releasePointerCapture(event.pointerId)
+      }
+    },
+    [],
+  )
+
+  const rotateHandle = useMemo(() => {
+    if (!isFrameMode || !image.naturalHeight) return null
+    const { offsetX, offsetY, rotation, scale } = image.adjustments
+    // Halfway up to the frame's top edge, along its rotated vertical axis.
+    const reach = Math.min(
+      (image.naturalHeight * scale) / 2,
+      Math.min(stage.width, stage.height) * ROTATE_HANDLE_REACH,
+    )
+    const angle = (rotation * Math.PI) / 180
+    const centre = {
+      x: stage.width / 2 + offsetX,
+      y: stage.height / 2 + offsetY,
+    }
+    return {
+      centre,
+      handle: {
+        x: centre.x + reach * Math.sin(angle),
+        y: centre.y - reach * Math.cos(angle),
+      },
+    }
+  }, [image.adjustments, image.naturalHeight, isFrameMode, stage])
+
+  // The loupe follows the pointer and rests on the crosshair otherwise.
+  const loupeCentre = useMemo(
+    () =>
+      hoverPoint ?? {
+        x: crop.x - crop.width / 2 + crosshair.x,
+        y: crop.y - crop.height / 2 + crosshair.y,
+      },
+    [crop, crosshair.x, crosshair.y, hoverPoint],
+  )
+
+  const loupeStyle = useMemo(() => {
+    const left = loupeCentre.x / stage.width + 0.5
+    const top = loupeCentre.y / stage.height + 0.5
+    // Sit above and right of the point, flipping away from the edges.
+    const shiftX =
+      left > 0.55 ? `calc(-100% - ${LOUPE_GAP}px)` : `${LOUPE_GAP}px`
+    const shiftY =
+      top < 0.45 ? `${LOUPE_GAP}px` : `calc(-100% - ${LOUPE_GAP}px)`
+    return {
+      left: `${left * 100}%`,
+      top: `${top * 100}%`,
+      transform: `translate(${shiftX}, ${shiftY})`,
+    }
+  }, [loupeCentre, stage.height, stage.width])
+
+  const controlPointMarkers = useMemo(() => {
+    if (!isPointMode) return []
+    const toPosition = (target: LoadedImage, point: Point) => {
+      const stagePoint = frameToStagePoint(target, point)
+      return stagePoint
+        ? {
+            left: `${(stagePoint.x / stage.width + 0.5) * 100}%`,
+            top: `${(stagePoint.y / stage.height + 0.5) * 100}%`,
+          }
+        : null
     }
-  }, [makeTransform, referenceImage, referenceOpacity])
+    const hasReference = pointReference && pointReference.id !== image.id
+    const residuals = hasReference
+      ? getControlPointResiduals(image, pointReference)
+      : []
+    return [
+      ...(hasReference ? (pointReference.controlPoints ?? []) : []).map(
+        (point, index) => ({
+          key: `reference-${index}`,
+          index,
+          isReference: true,
+          style: toPosition(pointReference as LoadedImage, point),
+          title: `Point ${index + 1} on ${pointReference?.label}`,
+        }),
+      ),
+      ...(image.controlPoints ?? []).map((point, index) => {
+        const residual = residuals[index]
+        return {
+          key: `active-${index}`,
+          index,
+          isReference: false,
+          style: toPosition(image, point),
+          title:
+            residual === null || residual === undefined
+              ? `Point ${index + 1}`
+              : `Point ${index + 1}: ${residual.toFixed(1)} px off`,
+        }
+      }),
+    ]
+  }, [image, isPointMode, pointReference, stage.height, stage.width])
+
+  const handleMarkerPointerDown = useCallback(
+    (index: number, event: PointerEvent<HTMLElement>) => {
+      if (event.button !== 0) return
+      // Grabbing a point moves it instead of adding another.
+      event.stopPropagation()
+      event.preventDefault()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      pointDragRef.current = { pointerId: event.pointerId, index }
+    },
+    [],
+  )
 
   const containerStyle = useMemo(
     () => ({
       width: '100%',
       aspectRatio:
-        crop.height && crop.width ? `${crop.width} / ${crop.height}` : '1 / 1',
+        stage.height && stage.width
+          ? `${stage.width} / ${stage.height}`
+          : '1 / 1',
     }),
-    [crop.height, crop.width],
+    [stage.height, stage.width],
   )
 
   return (
     <div className="panel viewport-panel">
       <div className="viewport-header">
         <span>{image.label}</span>
+        {onFrameTransform ? (
+          <div className="viewport-modes" role="group" aria-label="Drag mode">
+            {(
+              [
+                ['crosshair', 'Crosshair'],
+                ['frame', 'Move frame'],
+                ...(onControlPointAdd ? [['points', 'Points']] : []),
+              ] as Array<[PointerMode, string]>
+            ).map(([mode, label]) => (
+              <button
+                type="button"
+                key={mode}
+                className={`chip ${pointerMode === mode ? 'is-active' : ''}`}
+                aria-pressed={pointerMode === mode}
+                onClick={() => setPointerMode(mode)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        ) : null}
+        {coveredCropArea ? (
+          <span className="viewport-warning">
+            Frames don't cover the shaded part of the crop
+          </span>
+        ) : null}
         {image.naturalWidth && image.naturalHeight ? (
           <span className="viewport-meta">
             {image.naturalWidth} × {image.naturalHeight}
@@ -170,15 +761,27 @@ export function ImageViewport({
         className={[
           'viewport-canvas',
           image.objectUrl ? '' : 'is-empty',
+          isFrameMode ? 'is-moving-frame' : '',
         ].join(' ')}
         style={containerStyle}
+        title={isFrameMode ? FRAME_MODE_HINT : undefined}
         onPointerDown={handlePointerDown}
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
-        onPointerLeave={handlePointerUp}
-        onPointerCancel={handlePointerCancel}
+        onPointerLeave={handlePointerLeave}
+        onPointerCancel={handlePointerUp}
         role="presentation"
       >
+        <ToneFilters
+          images={
+            onionFrames.length
+              ? [image, ...onionFrames]
+              : referenceImage
+                ? [image, referenceImage]
+                : [image]
+          }
+          idPrefix={TONE_FILTER_PREFIX}
+        />
         {image.objectUrl ? (
           <img
             src={image.objectUrl}
@@ -190,23 +793,148 @@ export function ImageViewport({
         ) : (
           <div className="viewport-placeholder">Drop image here</div>
         )}
-        {referenceImage?.objectUrl ? (
+        {referenceImage?.objectUrl && compareMode !== 'onion' ? (
+          <div
+            className={`compare-layer compare-${compareMode}`}
+            style={compareLayerStyle}
+          >
+            <img
+              src={referenceImage.objectUrl}
+              alt={`${referenceImage.label} reference`}
+              className="viewport-image reference-frame"
+              draggable={false}
+              style={referenceTransformStyle}
+            />
+          </div>
+        ) : null}
+        {onionFrames.map((frame, index) => (
           <img
-            src={referenceImage.objectUrl}
-            alt={`${referenceImage.label} reference`}
-            className="viewport-image reference-frame"
+            key={frame.id}
+            src={frame.objectUrl}
+            alt={`${frame.label} onion skin`}
+            className="viewport-image onion-frame"
             draggable={false}
-            style={referenceTransformStyle}
+            style={{ ...makeTransform(frame), opacity: 1 / (index + 2) }}
+          />
+        ))}
+        {referenceImage?.objectUrl && compareMode === 'split' ? (
+          <div
+            className="compare-split-handle"
+            title="Drag to move the split"
+            style={{ left: `${splitPosition * 100}%` }}
+            onPointerDown={handleSplitPointerDown}
+            onPointerMove={handleSplitPointerMove}
+            onPointerUp={handleSplitPointerUp}
+            onPointerCancel={handleSplitPointerUp}
           />
         ) : null}
 
-        {showCrosshair && (
-          <div className="crosshair" style={crosshairStyle}>
-            <div className="crosshair-vertical" />
-            <div className="crosshair-horizontal" />
-            <div className="crosshair-center" />
-          </div>
+        {rotateHandle ? (
+          <>
+            <svg
+              className="frame-rotate-stem"
+              viewBox={`0 0 ${stage.width} ${stage.height}`}
+              preserveAspectRatio="none"
+              aria-hidden="true"
+            >
+              <line
+                x1={rotateHandle.centre.x}
+                y1={rotateHandle.centre.y}
+                x2={rotateHandle.handle.x}
+                y2={rotateHandle.handle.y}
+              />
+            </svg>
+            <div
+              className="frame-rotate-handle"
+              title="Drag to rotate the frame"
+              style={{
+                left: `${(rotateHandle.handle.x / stage.width) * 100}%`,
+                top: `${(rotateHandle.handle.y / stage.height) * 100}%`,
+              }}
+              onPointerDown={handleRotatePointerDown}
+              onPointerMove={handleRotatePointerMove}
+              onPointerUp={handleRotatePointerUp}
+              onPointerCancel={handleRotatePointerUp}
+            />
+          </>
+        ) : null}
+
+        {isLoupeShown && loupe ? (
+          <Loupe
+            image={image}
+            referenceImage={referenceImage}
+            centre={loupeCentre}
+            settings={loupe}
+            referenceOpacity={referenceOpacity}
+            toneFilterPrefix={TONE_FILTER_PREFIX}
+            style={loupeStyle}
+          />
+        ) : null}
+
+        {controlPointMarkers.map((marker) =>
+          marker.style ? (
+            <div
+              key={marker.key}
+              className={`control-point ${marker.isReference ? 'is-reference' : ''}`}
+              style={marker.style}
+              title={marker.title}
+              {...(marker.isReference
+                ? {}
+                : {
+                    onPointerDown: (event: PointerEvent<HTMLElement>) =>
+                      handleMarkerPointerDown(marker.index, event),
+                    onPointerMove: dragControlPoint,
+                    onPointerUp: handlePointerUp,
+                    onPointerCancel: handlePointerUp,
+                  })}
+            >
+              {marker.index + 1}
+            </div>
+          ) : null,
         )}
+
+        <div className="crop-window" style={cropWindowStyle}>
+          {coveredCropArea ? (
+            <svg
+              className="crop-uncovered"
+              viewBox={`0 0 ${crop.width} ${crop.height}`}
+              preserveAspectRatio="none"
+              aria-hidden="true"
+            >
+              <path
+                fillRule="evenodd"
+                d={`M0 0H${crop.width}V${crop.height}H0Z${
+                  coveredCropArea.length
+                    ? `M${coveredCropArea
+                        .map((point) => `${point.x} ${point.y}`)
+                        .join('L')}Z`
+                    : ''
+                }`}
+              />
+            </svg>
+          ) : null}
+          {showCrosshair && (
+            <div className="crosshair" style={crosshairStyle}>
+              <div className="crosshair-vertical" />
+              <div className="crosshair-horizontal" />
+              <div className="crosshair-center" />
+            </div>
+          )}
+          <div
+            className="crop-window-label"
+            title="Drag to move the crop"
+            {...getCropHandleProps('move')}
+          >
+            {crop.width} × {crop.height}
+          </div>
+          {CROP_RESIZE_HANDLES.map((handle) => (
+            <div
+              key={handle}
+              className={`crop-handle crop-handle-${handle}`}
+              {...getCropHandleProps(handle)}
+            />
+          ))}
+        </div>
       </div>
     </div>
   )
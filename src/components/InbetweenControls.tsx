@@ -0,0 +1,78 @@
+import type { InbetweenMode, InbetweenSettings } from '../types.ts'
+import { MAX_INBETWEEN_COUNT } from '../lib/sequence.ts'
+
+interface InbetweenControlsProps {
+  value: InbetweenSettings
+  onChange: (value: InbetweenSettings) => void
+  isGenerating: boolean
+  canBake: boolean
+  isBaking: boolean
+  onBake: () => void
+}
+
+const MODE_OPTIONS: Array<{ value: InbetweenMode; label: string }> = [
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'flow', label: 'Motion' },
+]
+
+export function InbetweenControls({
+  value,
+  onChange,
+  isGenerating,
+  canBake,
+  isBaking,
+  onBake,
+}: InbetweenControlsProps) {
+  const update = (changes: Partial<InbetweenSettings>) =>
+    onChange({ ...value, ...changes })
+
+  return (
+    <div className="inbetween-controls">
+      <div className="output-size-header">
+        <span>In-between frames</span>
+        {isGenerating ? (
+          <span className="viewport-meta">Generating preview…</span>
+        ) : null}
+      </div>
+      <label className="control-row">
+        <span>Per step</span>
+        <div className="number-input">
+          <input
+            type="range"
+            min={0}
+            max={MAX_INBETWEEN_COUNT}
+            step={1}
+            value={value.count}
+            onChange={(event) => update({ count: Number(event.target.value) })}
+          />
+          <span>{value.count || 'Off'}</span>
+        </div>
+      </label>
+      <div className="preset-buttons">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            type="button"
+            key={option.value}
+            className={`chip ${value.mode === option.value ? 'is-active' : ''}`}
+            aria-pressed={value.mode === option.value}
+            onClick={() => update({ mode: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="hint">
+        Generated frames only play in the preview and exports. Bake them to
+        turn them into regular frames you can edit.
+      </p>
+      <button
+        type="button"
+        className="secondary"
+        disabled={!canBake || isBaking}
+        onClick={onBake}
+      >
+        {isBaking ? 'Baking…' : 'Bake in-betweens'}
+      </button>
+    </div>
+  )
+}
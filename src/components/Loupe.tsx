@@ -0,0 +1,125 @@
+import { useEffect, useRef, useState } from 'react'
+import type { CSSProperties } from 'react'
+import type { LoadedImage, LoupeSettings, Point } from '../types.ts'
+import { drawLoupe } from '../lib/loupe.ts'
+import { ensureImageElement } from '../lib/rendering.ts'
+import { getToneFilter } from '../lib/tone.ts'
+
+interface LoupeProps {
+  image: LoadedImage
+  referenceImage?: LoadedImage | null
+  /** Magnified point, in stage pixels from the frames' centre. */
+  centre: Point
+  settings: LoupeSettings
+  referenceOpacity: number
+  /** Prefix of the ToneFilters already in the page. */
+  toneFilterPrefix: string
+  style?: CSSProperties
+}
+
+interface LoadedElements {
+  activeUrl: string
+  active: HTMLImageElement
+  referenceUrl: string | null
+  reference: HTMLImageElement | null
+}
+
+const LOUPE_SIZE = 176
+
+export function Loupe({
+  image,
+  referenceImage,
+  centre,
+  settings,
+  referenceOpacity,
+  toneFilterPrefix,
+  style,
+}: LoupeProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [elements, setElements] = useState<LoadedElements | null>(null)
+  const activeUrl = image.objectUrl
+  const referenceUrl = referenceImage?.objectUrl ?? null
+  const pixelRatio = window.devicePixelRatio || 1
+  const canvasSize = Math.round(LOUPE_SIZE * pixelRatio)
+
+  useEffect(() => {
+    if (!activeUrl) return
+    let isCurrent = true
+    Promise.all([
+      ensureImageElement(activeUrl),
+      referenceUrl ? ensureImageElement(referenceUrl) : null,
+    ])
+      .then(([active, reference]) => {
+        if (isCurrent) {
+          setElements({ activeUrl, active, referenceUrl, reference })
+        }
+      })
+      .catch(() => undefined)
+    return () => {
+      isCurrent = false
+    }
+  }, [activeUrl, referenceUrl])
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    // Skip drawing until the current frames have loaded.
+    if (
+      !context ||
+      !elements ||
+      elements.activeUrl !== activeUrl ||
+      elements.referenceUrl !== referenceUrl
+    ) {
+      return
+    }
+    drawLoupe(context, {
+      active: {
+        element: elements.active,
+        adjustments: image.adjustments,
+        filter: getToneFilter(toneFilterPrefix, image.id, image.adjustments),
+      },
+      reference:
+        referenceImage && elements.reference
+          ? {
+              element: elements.reference,
+              adjustments: referenceImage.adjustments,
+              filter: getToneFilter(
+                toneFilterPrefix,
+                referenceImage.id,
+                referenceImage.adjustments,
+              ),
+            }
+          : null,
+      centre,
+      zoom: settings.zoom * pixelRatio,
+      view: settings.view,
+      referenceOpacity,
+    })
+  }, [
+    activeUrl,
+    canvasSize,
+    centre,
+    elements,
+    image,
+    pixelRatio,
+    referenceImage,
+    referenceOpacity,
+    referenceUrl,
+    settings.view,
+    settings.zoom,
+    toneFilterPrefix,
+  ])
+
+  return (
+    <div
+      className="viewport-loupe"
+      style={{ width: LOUPE_SIZE, height: LOUPE_SIZE, ...style }}
+      aria-hidden="true"
+    >
+      <canvas ref={canvasRef} width={canvasSize} height={canvasSize} />
+      <span className="viewport-loupe-zoom">
+        {Math.round(settings.zoom * 10) / 10}×
+        {settings.view === 'difference' && referenceImage ? ' · diff' : ''}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import type {
+  Dimensions,
+  OutputSizeMode,
+  OutputSizeSettings,
+} from '../types.ts'
+import {
+  MAX_OUTPUT_SCALE,
+  MAX_OUTPUT_SIZE,
+  MIN_OUTPUT_SCALE,
+  resolveOutputSize,
+} from '../lib/resample.ts'
+
+interface OutputSizeControlsProps {
+  crop: Dimensions
+  value: OutputSizeSettings
+  onChange: (value: OutputSizeSettings) => void
+}
+
+const MODE_OPTIONS: Array<{ value: OutputSizeMode; label: string }> = [
+  { value: 'scale', label: 'Scale' },
+  { value: 'long-edge', label: 'Max long edge' },
+  { value: 'exact', label: 'Exact size' },
+]
+
+const toSize = (value: number) =>
+  Math.min(MAX_OUTPUT_SIZE, Math.max(1, Math.round(value) || 1))
+
+export function OutputSizeControls({
+  crop,
+  value,
+  onChange,
+}: OutputSizeControlsProps) {
+  const resolved = resolveOutputSize(crop, value)
+  const update = (changes: Partial<OutputSizeSettings>) =>
+    onChange({ ...value, ...changes })
+
+  return (
+    <div className="output-size">
+      <div className="output-size-header">
+        <span>Output size</span>
+        <span className="viewport-meta">
+          {resolved.width} × {resolved.height}
+        </span>
+      </div>
+      <div className="preset-buttons">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            type="button"
+            key={option.value}
+            className={`chip ${value.mode === option.value ? 'is-active' : ''}`}
+            aria-pressed={value.mode === option.value}
+            onClick={() => update({ mode: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value.mode === 'scale' ? (
+        <label className="control-row">
+          <span>Scale</span>
+          <div className="number-input">
+            <input
+              type="range"
+              min={MIN_OUTPUT_SCALE}
+              max={MAX_OUTPUT_SCALE}
+              step={0.05}
+              value={value.scale}
+              onChange={(event) =>
+                update({ scale: Number(event.target.value) })
+              }
+            />
+            <span>{Math.round(value.scale * 100)}%</span>
+          </div>
+        </label>
+      ) : null}
+      {value.mode === 'long-edge' ? (
+        <label className="control-row">
+          <span>Long edge</span>
+          <div className="number-input">
+            <input
+              type="number"
+              min={1}
+              max={MAX_OUTPUT_SIZE}
+              step={1}
+              value={value.longEdge}
+              onChange={(event) =>
+                update({ longEdge: toSize(Number(event.target.value)) })
+              }
+            />
+            <span>px</span>
+          </div>
+        </label>
+      ) : null}
+      {value.mode === 'exact' ? (
+        <>
+          <label className="control-row">
+            <span>Width</span>
+            <div className="number-input">
+              <input
+                type="number"
+                min={1}
+                max={MAX_OUTPUT_SIZE}
+                step={1}
+                value={value.width}
+                onChange={(event) =>
+                  update({ width: toSize(Number(event.target.value)) })
+                }
+              />
+              <span>px</span>
+            </div>
+          </label>
+          <label className="control-row">
+            <span>Height</span>
+            <div className="number-input">
+              <input
+                type="number"
+                min={1}
+                max={MAX_OUTPUT_SIZE}
+                step={1}
+                value={resolved.height}
+                onChange={(event) => {
+                  const height = toSize(Number(event.target.value))
+                  // With the aspect locked, height edits drive the width.
+                  update(
+                    value.lockAspect && crop.height
+                      ? {
+                          height,
+                          width: toSize((height * crop.width) / crop.height),
+                        }
+                      : { height },
+                  )
+                }}
+              />
+              <span>px</span>
+            </div>
+          </label>
+          <label className="control-row checkbox">
+            <input
+              type="checkbox"
+              checked={value.lockAspect}
+              onChange={(event) =>
+                update({
+                  lockAspect: event.target.checked,
+                  height: resolved.height,
+                })
+              }
+            />
+            <span>Lock aspect ratio to crop</span>
+          </label>
+        </>
+      ) : null}
+      <label className="control-row checkbox">
+        <input
+          type="checkbox"
+          checked={value.sharpen}
+          onChange={(event) => update({ sharpen: event.target.checked })}
+        />
+        <span>Sharpen after resizing</span>
+      </label>
+    </div>
+  )
+}
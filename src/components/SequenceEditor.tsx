@@ -0,0 +1,200 @@
+import { useCallback, useState } from 'react'
+import type { LoadedImage, SequencePreset, SequenceStep } from '../types.ts'
+import {
+  MAX_STEP_DURATION,
+  MIN_STEP_DURATION,
+  clampStepDuration,
+} from '../lib/sequence.ts'
+
+interface SequenceEditorProps {
+  frames: LoadedImage[]
+  preset: SequencePreset
+  steps: SequenceStep[]
+  onPresetChange: (preset: SequencePreset) => void
+  onStepsChange: (steps: SequenceStep[]) => void
+}
+
+const PRESET_OPTIONS: Array<{ value: SequencePreset; label: string }> = [
+  { value: 'forward', label: 'Forward' },
+  { value: 'ping-pong', label: 'Ping-pong' },
+  { value: 'custom', label: 'Custom' },
+]
+
+export function SequenceEditor({
+  frames,
+  preset,
+  steps,
+  onPresetChange,
+  onStepsChange,
+}: SequenceEditorProps) {
+  const updateStep = useCallback(
+    (index: number, patch: Partial<SequenceStep>) => {
+      onStepsChange(
+        steps.map((step, stepIndex) =>
+          stepIndex === index ? { ...step, ...patch } : step,
+        ),
+      )
+    },
+    [onStepsChange, steps],
+  )
+
+  // The duration being typed; it's saved once it is in range, and clamped
+  // when the field loses focus, so the field ends up showing what plays.
+  const [durationDraft, setDurationDraft] = useState<{
+    index: number
+    value: string
+  } | null>(null)
+
+  const handleDurationChange = useCallback(
+    (index: number, value: string) => {
+      setDurationDraft({ index, value })
+      const duration = Number(value)
+      if (
+        value !== '' &&
+        duration === clampStepDuration(duration) &&
+        duration !== steps[index]?.durationMs
+      ) {
+        updateStep(index, { durationMs: duration })
+      }
+    },
+    [steps, updateStep],
+  )
+
+  const handleDurationBlur = useCallback(() => {
+    if (!durationDraft) return
+    const duration = clampStepDuration(Number(durationDraft.value))
+    if (duration !== steps[durationDraft.index]?.durationMs) {
+      updateStep(durationDraft.index, { durationMs: duration })
+    }
+    setDurationDraft(null)
+  }, [durationDraft, steps, updateStep])
+
+  const moveStep = useCallback(
+    (index: number, delta: number) => {
+      const target = index + delta
+      if (target < 0 || target >= steps.length) return
+      const next = [...steps]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      onStepsChange(next)
+    },
+    [onStepsChange, steps],
+  )
+
+  const removeStep = useCallback(
+    (index: number) => {
+      if (steps.length <= 1) return
+      onStepsChange(steps.filter((_, stepIndex) => stepIndex !== index))
+    },
+    [onStepsChange, steps],
+  )
+
+  const addStep = useCallback(() => {
+    const last = steps[steps.length - 1]
+    const frameId = last?.frameId ?? frames[0]?.id
+    if (!frameId) return
+    onStepsChange([
+      ...steps,
+      { frameId, durationMs: last?.durationMs ?? MIN_STEP_DURATION },
+    ])
+  }, [frames, onStepsChange, steps])
+
+  const totalDuration = steps.reduce((sum, step) => sum + step.durationMs, 0)
+
+  return (
+    <div className="sequence-editor">
+      <div className="sequence-header">
+        <span>Sequence</span>
+        <div className="preset-buttons">
+          {PRESET_OPTIONS.map((option) => (
+            <button
+              type="button"
+              key={option.value}
+              className={`chip ${preset === option.value ? 'is-active' : ''}`}
+              aria-pressed={preset === option.value}
+              onClick={() => onPresetChange(option.value)}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <ol className="sequence-steps">
+        {steps.map((step, index) => (
+          <li key={`${index}-${step.frameId}`} className="sequence-step">
+            <span className="sequence-step-index">{index + 1}</span>
+            <select
+              value={step.frameId}
+              aria-label={`Step ${index + 1} frame`}
+              onChange={(event) =>
+                updateStep(index, { frameId: event.target.value })
+              }
+            >
+              {frames.map((frame) => (
+                <option key={frame.id} value={frame.id}>
+                  {frame.label}
+                </option>
+              ))}
+            </select>
+            <div className="number-input">
+              <input
+                type="number"
+                min={MIN_STEP_DURATION}
+                max={MAX_STEP_DURATION}
+                step={10}
+                value={
+                  durationDraft?.index === index
+                    ? durationDraft.value
+                    : step.durationMs
+                }
+                aria-label={`Step ${index + 1} duration`}
+                onChange={(event) =>
+                  handleDurationChange(index, event.target.value)
+                }
+                onBlur={handleDurationBlur}
+              />
+              <span>ms</span>
+            </div>
+            <div className="sequence-step-actions">
+              <button
+                type="button"
+                className="chip"
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move step ${index + 1} earlier`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="chip"
+                onClick={() => moveStep(index, 1)}
+                disabled={index === steps.length - 1}
+                aria-label={`Move step ${index + 1} later`}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="chip danger"
+                onClick={() => removeStep(index)}
+                disabled={steps.length <= 1}
+                aria-label={`Remove step ${index + 1}`}
+              >
+                ✕
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+      <div className="sequence-footer">
+        <button type="button" className="chip" onClick={addStep}>
+          ＋ Add step
+        </button>
+        <span className="sequence-total">
+          {steps.length} steps · {(totalDuration / 1000).toFixed(2)} s loop
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+import { SHORTCUT_GROUPS } from '../lib/shortcuts.ts'
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div
+        className="panel shortcut-help"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="panel-header">
+          <h3>Keyboard shortcuts</h3>
+          <button type="button" className="link" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        <div className="panel-body">
+          {SHORTCUT_GROUPS.map((group) => (
+            <section key={group.title} className="shortcut-group">
+              <h4>{group.title}</h4>
+              <dl>
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.description} className="shortcut-row">
+                    <dt>
+                      {shortcut.keys.map((key) => (
+                        <kbd key={key}>{key}</kbd>
+                      ))}
+                    </dt>
+                    <dd>{shortcut.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+          <p className="hint">
+            Shortcuts are off while a field or slider has focus.
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+import type {
+  LoadedImage,
+  StereoExportSettings,
+  StereoImageFormat,
+  StereoLayout,
+} from '../types.ts'
+
+interface StereoExportPanelProps {
+  frames: LoadedImage[]
+  leftId: string
+  rightId: string
+  onFramesChange: (leftId: string, rightId: string) => void
+  value: StereoExportSettings
+  onChange: (value: StereoExportSettings) => void
+  canExport: boolean
+  isExporting: boolean
+  onExport: () => void
+}
+
+const LAYOUT_OPTIONS: Array<{ value: StereoLayout; label: string }> = [
+  { value: 'anaglyph-dubois', label: 'Red/cyan anaglyph (Dubois)' },
+  { value: 'anaglyph', label: 'Red/cyan anaglyph (colour)' },
+  { value: 'parallel', label: 'Side by side, parallel' },
+  { value: 'cross-eyed', label: 'Side by side, cross-eyed' },
+  { value: 'over-under', label: 'Over/under' },
+]
+
+const FORMAT_OPTIONS: Array<{ value: StereoImageFormat; label: string }> = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+]
+
+export function StereoExportPanel({
+  frames,
+  leftId,
+  rightId,
+  onFramesChange,
+  value,
+  onChange,
+  canExport,
+  isExporting,
+  onExport,
+}: StereoExportPanelProps) {
+  const frameSelect = (
+    label: string,
+    selectedId: string,
+    onSelect: (id: string) => void,
+  ) => (
+    <label className="control-row">
+      <span>{label}</span>
+      <select
+        value={selectedId}
+        onChange={(event) => onSelect(event.target.value)}
+      >
+        {frames.map((frame) => (
+          <option key={frame.id} value={frame.id}>
+            {frame.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+
+  return (
+    <div className="stereo-export">
+      <div className="output-size-header">
+        <span>Stereo image</span>
+      </div>
+      {frameSelect('Left eye', leftId, (id) => onFramesChange(id, rightId))}
+      {frameSelect('Right eye', rightId, (id) => onFramesChange(leftId, id))}
+      <label className="control-row">
+        <span>Layout</span>
+        <select
+          value={value.layout}
+          onChange={(event) =>
+            onChange({ ...value, layout: event.target.value as StereoLayout })
+          }
+        >
+          {LAYOUT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="preset-buttons">
+        {FORMAT_OPTIONS.map((option) => (
+          <button
+            type="button"
+            key={option.value}
+            className={`chip ${value.format === option.value ? 'is-active' : ''}`}
+            aria-pressed={value.format === option.value}
+            onClick={() => onChange({ ...value, format: option.value })}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="button-row">
+        <button
+          type="button"
+          className="link"
+          onClick={() => onFramesChange(rightId, leftId)}
+        >
+          Swap eyes
+        </button>
+        <button
+          type="button"
+          className="secondary"
+          disabled={!canExport || isExporting}
+          onClick={onExport}
+        >
+          {isExporting ? 'Rendering…' : 'Download stereo image'}
+        </button>
+      </div>
+    </div>
+  )
+}
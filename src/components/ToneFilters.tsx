@@ -0,0 +1,36 @@
+import type { LoadedImage } from '../types.ts'
+import { getToneMatrix, isNeutralTone } from '../lib/tone.ts'
+
+interface ToneFiltersProps {
+  images: LoadedImage[]
+  /** Prefix for the filter ids, unique to each place the frames appear. */
+  idPrefix: string
+}
+
+/**
+ * Hidden SVG filters that show each frame's tone settings live. Frames
+ * reference theirs with `filter: url(#<idPrefix>-<frame id>)`.
+ */
+export function ToneFilters({ images, idPrefix }: ToneFiltersProps) {
+  const toned = images.filter((image) => !isNeutralTone(image.adjustments))
+  if (!toned.length) return null
+
+  return (
+    <svg className="tone-filters" aria-hidden="true" focusable="false">
+      <defs>
+        {toned.map((image) => (
+          <filter
+            key={image.id}
+            id={`${idPrefix}-${image.id}`}
+            colorInterpolationFilters="sRGB"
+          >
+            <feColorMatrix
+              type="matrix"
+              values={getToneMatrix(image.adjustments).join(' ')}
+            />
+          </filter>
+        ))}
+      </defs>
+    </svg>
+  )
+}
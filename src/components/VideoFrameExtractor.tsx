@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  extractVideoFrames,
+  formatTimestamp,
+  spreadTimestamps,
+} from '../lib/video.ts'
+
+interface VideoFrameExtractorProps {
+  file: File
+  onExtract: (frames: File[]) => void
+  onCancel: () => void
+}
+
+type SelectionMode = 'range' | 'manual'
+
+const MIN_FRAME_COUNT = 2
+const MAX_FRAME_COUNT = 24
+
+export function VideoFrameExtractor({
+  file,
+  onExtract,
+  onCancel,
+}: VideoFrameExtractorProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null)
+  const [objectUrl, setObjectUrl] = useState<string | undefined>()
+  const [duration, setDuration] = useState(0)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [mode, setMode] = useState<SelectionMode>('range')
+  const [rangeStart, setRangeStart] = useState(0)
+  const [rangeEnd, setRangeEnd] = useState(0)
+  const [frameCount, setFrameCount] = useState(3)
+  const [manualTimes, setManualTimes] = useState<number[]>([])
+  const [progress, setProgress] = useState<{
+    done: number
+    total: number
+  } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    setObjectUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  const timestamps = useMemo(
+    () =>
+      mode === 'range'
+        ? spreadTimestamps(
+            Math.min(rangeStart, rangeEnd),
+            Math.max(rangeStart, rangeEnd),
+            frameCount,
+          )
+        : [...manualTimes].sort((first, second) => first - second),
+    [frameCount, manualTimes, mode, rangeEnd, rangeStart],
+  )
+
+  const seek = useCallback((time: number) => {
+    const video = videoRef.current
+    if (video) {
+      video.currentTime = time
+    }
+    setCurrentTime(time)
+  }, [])
+
+  const handleLoadedMetadata = useCallback(() => {
+    const video = videoRef.current
+    if (!video || !Number.isFinite(video.duration)) return
+    setDuration(video.duration)
+    setRangeStart(0)
+    setRangeEnd(video.duration)
+  }, [])
+
+  const handleExtract = useCallback(async () => {
+    setError(null)
+    setProgress({ done: 0, total: timestamps.length })
+    try {
+      const frames = await extractVideoFrames(
+        file,
+        timestamps,
+        duration,
+        (done, total) => setProgress({ done, total }),
+      )
+      onExtract(frames)
+    } catch (extractError) {
+      setError(
+        extractError instanceof Error
+          ? extractError.message
+          : 'Unable to extract frames',
+      )
+    } finally {
+      setProgress(null)
+    }
+  }, [duration, file, onExtract, timestamps])
+
+  const isExtracting = progress !== null
+
+  return (
+    <div className="modal-backdrop">
+      <div
+        className="panel video-extractor"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Extract frames from video"
+      >
+        <div className="panel-header">
+          <h3>Frames from {file.name}</h3>
+          <button
+            type="button"
+            className="link"
+            onClick={onCancel}
+            disabled={isExtracting}
+          >
+            Cancel
+          </button>
+        </div>
+        <div className="panel-body">
+          <video
+            ref={videoRef}
+            src={objectUrl}
+            className="video-extractor-preview"
+            muted
+            playsInline
+            preload="auto"
+            onLoadedMetadata={handleLoadedMetadata}
+          />
+          <label className="control-row">
+            <span>Position · {formatTimestamp(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration || 0}
+              step={0.01}
+              value={currentTime}
+              disabled={!duration}
+              onChange={(event) => seek(Number(event.target.value))}
+            />
+          </label>
+          <div className="preset-buttons">
+            <button
+              type="button"
+              className={`chip ${mode === 'range' ? 'is-active' : ''}`}
+              aria-pressed={mode === 'range'}
+              onClick={() => setMode('range')}
+            >
+              Evenly spaced
+            </button>
+            <button
+              type="button"
+              className={`chip ${mode === 'manual' ? 'is-active' : ''}`}
+              aria-pressed={mode === 'manual'}
+              onClick={() => setMode('manual')}
+            >
+              Pick timestamps
+            </button>
+          </div>
+          {mode === 'range' ? (
+            <div className="export-controls">
+              <div className="control-row">
+                <span>Start · {formatTimestamp(rangeStart)}</span>
+                <button
+                  type="button"
+                  className="chip"
+                  onClick={() => setRangeStart(currentTime)}
+                >
+                  Set to current
+                </button>
+              </div>
+              <div className="control-row">
+                <span>End · {formatTimestamp(rangeEnd)}</span>
+                <button
+                  type="button"
+                  className="chip"
+                  onClick={() => setRangeEnd(currentTime)}
+                >
+                  Set to current
+                </button>
+              </div>
+              <label className="control-row">
+                <span>Frames</span>
+                <div className="number-input">
+                  <input
+                    type="number"
+                    min={MIN_FRAME_COUNT}
+                    max={MAX_FRAME_COUNT}
+                    step={1}
+                    value={frameCount}
+                    onChange={(event) =>
+                      setFrameCount(
+                        Math.min(
+                          MAX_FRAME_COUNT,
+                          Math.max(
+                            MIN_FRAME_COUNT,
+                            Math.round(Number(event.target.value)) ||
+                              MIN_FRAME_COUNT,
+                          ),
+                        ),
+                      )
+                    }
+                  />
+                </div>
+              </label>
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="chip"
+              onClick={() =>
+                setManualTimes((previous) =>
+                  previous.includes(currentTime)
+                    ? previous
+                    : [...previous, currentTime],
+                )
+              }
+              disabled={!duration || manualTimes.length >= MAX_FRAME_COUNT}
+            >
+              ＋ Add current position
+            </button>
+          )}
+          <ul className="video-timestamps">
+            {timestamps.map((time, index) => (
+              <li key={`${index}-${time}`}>
+                <button
+                  type="button"
+                  className="chip"
+                  onClick={() => seek(time)}
+                >
+                  {formatTimestamp(time)}
+                </button>
+                {mode === 'manual' ? (
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() =>
+                      setManualTimes((previous) =>
+                        previous.filter((value) => value !== time),
+                      )
+                    }
+                    aria-label={`Remove ${formatTimestamp(time)}`}
+                  >
+                    ✕
+                  </button>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+          {error ? <p className="error-message">{error}</p> : null}
+          <div className="button-row">
+            <button
+              type="button"
+              className="primary"
+              onClick={handleExtract}
+              disabled={!duration || !timestamps.length || isExtracting}
+            >
+              {progress
+                ? `Extracting ${progress.done} / ${progress.total}…`
+                : `Extract ${timestamps.length} frames`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,39 +1,67 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
-import type { Dimensions, LoadedImage } from '../types.ts'
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import type {
+  CropRect,
+  EdgeFillSettings,
+  LoadedImage,
+  PlaybackStep,
+} from '../types.ts'
+import { getInbetweenKey } from '../lib/sequence.ts'
+import { getToneFilter } from '../lib/tone.ts'
+import { EdgeFillLayer } from './EdgeFillLayer.tsx'
+import { ToneFilters } from './ToneFilters.tsx'
+
+const TONE_FILTER_PREFIX = 'preview-tone'
 
 interface WigglePreviewProps {
   images: LoadedImage[]
-  crop: Dimensions
-  intervalMs: number
+  crop: CropRect
+  fill: EdgeFillSettings
+  steps: PlaybackStep[]
+  /** Generated frames for the in-between steps, keyed by getInbetweenKey. */
+  inbetweens?: Map<string, string[]> | null
   isPlaying: boolean
 }
 
 export function WigglePreview({
   images,
   crop,
-  intervalMs,
+  fill,
+  steps,
+  inbetweens,
   isPlaying,
 }: WigglePreviewProps) {
-  const [activeIndex, setActiveIndex] = useState(0)
+  const [stepIndex, setStepIndex] = useState(0)
   const containerRef = useRef<HTMLDivElement | null>(null)
   const [displaySize, setDisplaySize] = useState(() => ({
     width: crop.width,
     height: crop.height,
   }))
 
+  const currentStep = steps[stepIndex % Math.max(steps.length, 1)]
+  // Until the in-betweens are generated, their steps show the frame they
+  // start from.
+  const inbetweenUrl = currentStep?.inbetween
+    ? inbetweens?.get(
+        getInbetweenKey(currentStep.frameId, currentStep.inbetween.toFrameId),
+      )?.[currentStep.inbetween.index]
+    : undefined
+  const hasInbetweens = steps.some((step) => step.inbetween)
+
   useEffect(() => {
-    if (!isPlaying || images.some((img) => !img.objectUrl)) return undefined
+    if (!isPlaying || !currentStep || images.some((img) => !img.objectUrl)) {
+      return undefined
+    }
 
-    const interval = window.setInterval(() => {
-      setActiveIndex((current) => (current + 1) % images.length)
-    }, Math.max(intervalMs, 40))
+    const timeout = window.setTimeout(() => {
+      setStepIndex((current) => (current + 1) % steps.length)
+    }, Math.max(currentStep.durationMs, 40))
 
-    return () => window.clearInterval(interval)
-  }, [images, intervalMs, isPlaying])
+    return () => window.clearTimeout(timeout)
+  }, [currentStep, images, isPlaying, steps.length])
 
   useEffect(() => {
-    setActiveIndex(0)
-  }, [intervalMs, images])
+    setStepIndex(0)
+  }, [steps])
 
   useEffect(() => {
     const element = containerRef.current
@@ -66,9 +94,12 @@ export function WigglePreview({
       width: '100%',
       aspectRatio:
         crop.height && crop.width ? `${crop.width} / ${crop.height}` : '1 / 1',
+      background: fill.mode === 'solid' ? fill.color : undefined,
     }),
-    [crop.height, crop.width],
+    [crop.height, crop.width, fill.color, fill.mode],
   )
+  const fillMode =
+    fill.mode === 'none' || fill.mode === 'solid' ? null : fill.mode
 
   if (images.every((img) => !img.objectUrl)) {
     return (
@@ -84,39 +115,68 @@ export function WigglePreview({
 
   return (
     <div
-      className="wiggle-preview"
+      className={`wiggle-preview ${hasInbetweens ? 'has-inbetweens' : ''}`}
       ref={containerRef}
       style={containerStyle}
     >
-      {images.map((image, index) =>
-        image.objectUrl ? (
-          <img
-            key={image.id}
-            src={image.objectUrl}
-            alt={`${image.label} wiggle frame`}
-            className={[
-              'wiggle-frame',
-              index === activeIndex ? 'visible' : '',
-            ].join(' ')}
-            style={(() => {
-              const { offsetX, offsetY, rotation, scale } = image.adjustments
-              const baseWidth =
-                (image.naturalWidth ?? crop.width) * displayScaleX || crop.width
-              const baseHeight =
-                (image.naturalHeight ?? crop.height) * displayScaleY ||
-                crop.height
-              const translateX = offsetX * displayScaleX
-              const translateY = offsetY * displayScaleY
-              return {
-                width: `${baseWidth}px`,
-                height: `${baseHeight}px`,
-                transform: `translate(calc(-50% + ${translateX}px), calc(-50% + ${translateY}px)) rotate(${rotation}deg) scale(${scale})`,
-              }
-            })()}
-            draggable={false}
-          />
-        ) : null,
-      )}
+      <ToneFilters images={images} idPrefix={TONE_FILTER_PREFIX} />
+      {images.map((image) => {
+        if (!image.objectUrl) return null
+        const frameClassName = [
+          'wiggle-frame',
+          image.id === currentStep?.frameId && !inbetweenUrl ? 'visible' : '',
+        ].join(' ')
+        const toneFilter = getToneFilter(
+          TONE_FILTER_PREFIX,
+          image.id,
+          image.adjustments,
+        )
+        return (
+          <Fragment key={image.id}>
+            {fillMode ? (
+              <EdgeFillLayer
+                image={image}
+                crop={crop}
+                mode={fillMode}
+                size={displaySize}
+                className={`${frameClassName} wiggle-edge-fill`}
+                style={{ filter: toneFilter }}
+              />
+            ) : null}
+            <img
+              src={image.objectUrl}
+              alt={`${image.label} wiggle frame`}
+              className={frameClassName}
+              style={(() => {
+                const { offsetX, offsetY, rotation, scale } = image.adjustments
+                const baseWidth =
+                  (image.naturalWidth ?? crop.width) * displayScaleX ||
+                  crop.width
+                const baseHeight =
+                  (image.naturalHeight ?? crop.height) * displayScaleY ||
+                  crop.height
+                const translateX = (offsetX - crop.x) * displayScaleX
+                const translateY = (offsetY - crop.y) * displayScaleY
+                return {
+                  width: `${baseWidth}px`,
+                  height: `${baseHeight}px`,
+                  transform: `translate(calc(-50% + ${translateX}px), calc(-50% + ${translateY}px)) rotate(${rotation}deg) scale(${scale})`,
+                  filter: toneFilter,
+                }
+              })()}
+              draggable={false}
+            />
+          </Fragment>
+        )
+      })}
+      {inbetweenUrl ? (
+        <img
+          src={inbetweenUrl}
+          alt="Generated in-between frame"
+          className="wiggle-frame wiggle-inbetween visible"
+          draggable={false}
+        />
+      ) : null}
     </div>
   )
 }
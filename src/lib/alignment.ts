@@ -0,0 +1,181 @@
+import type { CropRect, Dimensions, LoadedImage, Point } from '../types.ts'
+import type { LuminanceImage } from './matching.ts'
+import type {
+  AlignmentWorkerRequest,
+  AlignmentWorkerResponse,
+} from './alignment.worker.ts'
+import { drawAdjustedImage, ensureImageElement } from './rendering.ts'
+
+export interface FrameAlignment {
+  id: string
+  offsetX: number
+  offsetY: number
+  confidence: number
+}
+
+interface Region {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const MIN_PATCH_RADIUS = 24
+const MAX_PATCH_RADIUS = 96
+// Matches the Offset X/Y slider range in ImageControls.
+const SEARCH_RADIUS = 300
+
+const getPatchRadius = (crop: Dimensions) =>
+  Math.round(
+    Math.min(
+      MAX_PATCH_RADIUS,
+      Math.max(MIN_PATCH_RADIUS, Math.min(crop.width, crop.height) * 0.08),
+    ),
+  )
+
+const renderLuminance = async (
+  image: LoadedImage,
+  crop: CropRect,
+  region: Region,
+  ignoreOffset: boolean,
+): Promise<LuminanceImage> => {
+  if (!image.objectUrl) {
+    throw new Error('All frames must be loaded before aligning.')
+  }
+  const element = await ensureImageElement(image.objectUrl)
+  const canvas = document.createElement('canvas')
+  canvas.width = region.width
+  canvas.height = region.height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Unable to prepare frame for alignment.')
+  }
+
+  context.translate(-region.x, -region.y)
+  drawAdjustedImage(
+    context,
+    element,
+    ignoreOffset
+      ? { ...image.adjustments, offsetX: 0, offsetY: 0 }
+      : image.adjustments,
+    crop,
+  )
+
+  const { data } = context.getImageData(0, 0, region.width, region.height)
+  const luminance = new Float32Array(region.width * region.height)
+  for (let index = 0; index < luminance.length; index += 1) {
+    const offset = index * 4
+    const alpha = data[offset + 3] / 255
+    luminance[index] =
+      (0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]) *
+      alpha
+  }
+  return { width: region.width, height: region.height, data: luminance }
+}
+
+const createMatcher = () => {
+  const worker = new Worker(new URL('./alignment.worker.ts', import.meta.url), {
+    type: 'module',
+  })
+  let nextId = 0
+
+  const match = (template: LuminanceImage, search: LuminanceImage) =>
+    new Promise<{ x: number; y: number; score: number }>((resolve, reject) => {
+      const id = nextId
+      nextId += 1
+      const handleMessage = (event: MessageEvent<AlignmentWorkerResponse>) => {
+        if (event.data.id !== id) return
+        worker.removeEventListener('message', handleMessage)
+        worker.removeEventListener('error', handleError)
+        if ('error' in event.data) {
+          reject(new Error(event.data.error))
+        } else {
+          resolve(event.data.result)
+        }
+      }
+      const handleError = () => {
+        worker.removeEventListener('message', handleMessage)
+        worker.removeEventListener('error', handleError)
+        reject(new Error('Alignment worker failed.'))
+      }
+      worker.addEventListener('message', handleMessage)
+      worker.addEventListener('error', handleError)
+      const request: AlignmentWorkerRequest = { id, template, search }
+      worker.postMessage(request, [template.data.buffer, search.data.buffer])
+    })
+
+  return { match, dispose: () => worker.terminate() }
+}
+
+/**
+ * Aligns every loaded frame to the reference frame around the crosshair.
+ * A patch is taken around the crosshair in the reference frame (as rendered
+ * with its own adjustments) and located in each other frame, rendered with
+ * its rotation and scale but no offset. The returned offsets move the match
+ * back under the crosshair.
+ */
+export const autoAlignFrames = async (
+  images: LoadedImage[],
+  referenceId: string,
+  crop: CropRect,
+  crosshair: Point,
+): Promise<FrameAlignment[]> => {
+  const reference = images.find((image) => image.id === referenceId)
+  if (!reference?.objectUrl) {
+    throw new Error('Load the reference frame before aligning.')
+  }
+
+  const patchRadius = getPatchRadius(crop)
+  const center = { x: Math.round(crosshair.x), y: Math.round(crosshair.y) }
+  const templateRegion: Region = {
+    x: center.x - patchRadius,
+    y: center.y - patchRadius,
+    width: patchRadius * 2,
+    height: patchRadius * 2,
+  }
+  const searchRegion: Region = {
+    x: templateRegion.x - SEARCH_RADIUS,
+    y: templateRegion.y - SEARCH_RADIUS,
+    width: templateRegion.width + SEARCH_RADIUS * 2,
+    height: templateRegion.height + SEARCH_RADIUS * 2,
+  }
+
+  const matcher = createMatcher()
+  const results: FrameAlignment[] = []
+
+  try {
+    for (const image of images) {
+      if (!image.objectUrl) continue
+      if (image.id === reference.id) {
+        results.push({
+          id: image.id,
+          offsetX: image.adjustments.offsetX,
+          offsetY: image.adjustments.offsetY,
+          confidence: 1,
+        })
+        continue
+      }
+
+      // Transferring to the worker detaches the buffers, so render per frame.
+      const template = await renderLuminance(
+        reference,
+        crop,
+        templateRegion,
+        false,
+      )
+      const search = await renderLuminance(image, crop, searchRegion, true)
+      const match = await matcher.match(template, search)
+
+      results.push({
+        id: image.id,
+        offsetX: SEARCH_RADIUS - match.x,
+        offsetY: SEARCH_RADIUS - match.y,
+        confidence: Math.max(0, Math.min(1, match.score)),
+      })
+    }
+  } finally {
+    matcher.dispose()
+  }
+
+  return results
+}
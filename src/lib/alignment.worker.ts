@@ -0,0 +1,25 @@
+import { findBestMatch } from './matching.ts'
+import type { LuminanceImage, MatchResult } from './matching.ts'
+
+export interface AlignmentWorkerRequest {
+  id: number
+  template: LuminanceImage
+  search: LuminanceImage
+}
+
+export type AlignmentWorkerResponse =
+  | { id: number; result: MatchResult }
+  | { id: number; error: string }
+
+self.onmessage = (event: MessageEvent<AlignmentWorkerRequest>) => {
+  const { id, template, search } = event.data
+  try {
+    const result = findBestMatch(template, search)
+    self.postMessage({ id, result } satisfies AlignmentWorkerResponse)
+  } catch (error) {
+    self.postMessage({
+      id,
+      error: error instanceof Error ? error.message : 'Alignment failed.',
+    } satisfies AlignmentWorkerResponse)
+  }
+}
@@ -0,0 +1,275 @@
+import { zlibSync } from 'fflate'
+import type { PngCompression } from '../types.ts'
+import type { EncodeProgressCallback } from './gif.ts'
+
+/**
+ * Animated PNG encoder. Frames are stored as full-colour RGBA, so the
+ * transparency of uncovered areas survives export.
+ */
+
+export interface ApngFrameStep {
+  /** Index into the encoded frames. */
+  frame: number
+  delayMs: number
+}
+
+export interface ApngEncodeOptions {
+  width: number
+  height: number
+  /** RGBA pixels of each distinct frame. */
+  frames: Uint8ClampedArray[]
+  steps: ApngFrameStep[]
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number
+  compression: PngCompression
+  /** Latin-1 tEXt entries keyed by PNG keyword, e.g. "Creation Time". */
+  text?: Record<string, string>
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const BYTES_PER_PIXEL = 4
+
+const COMPRESSION_SETTINGS: Record<
+  PngCompression,
+  { level: 1 | 6 | 9; adaptiveFilter: boolean }
+> = {
+  fast: { level: 1, adaptiveFilter: false },
+  balanced: { level: 6, adaptiveFilter: true },
+  smallest: { level: 9, adaptiveFilter: true },
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index += 1) {
+    let value = index
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+    }
+    table[index] = value >>> 0
+  }
+  return table
+})()
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (let index = 0; index < bytes.length; index += 1) {
+    crc = CRC_TABLE[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const paeth = (left: number, up: number, upLeft: number) => {
+  const estimate = left + up - upLeft
+  const toLeft = Math.abs(estimate - left)
+  const toUp = Math.abs(estimate - up)
+  const toUpLeft = Math.abs(estimate - upLeft)
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left
+  return toUp <= toUpLeft ? up : upLeft
+}
+
+const filterRow = (
+  filter: number,
+  row: Uint8ClampedArray,
+  previous: Uint8ClampedArray | null,
+  output: Uint8Array,
+) => {
+  for (let index = 0; index < row.length; index += 1) {
+    const left = index >= BYTES_PER_PIXEL ? row[index - BYTES_PER_PIXEL] : 0
+    const up = previous ? previous[index] : 0
+    const upLeft =
+      previous && index >= BYTES_PER_PIXEL
+        ? previous[index - BYTES_PER_PIXEL]
+        : 0
+    const predictor =
+      filter === 1
+        ? left
+        : filter === 2
+          ? up
+          : filter === 3
+            ? (left + up) >> 1
+            : filter === 4
+              ? paeth(left, up, upLeft)
+              : 0
+    output[index] = (row[index] - predictor) & 0xff
+  }
+}
+
+// Smaller sums of the filtered bytes (read as signed) usually deflate better.
+const scoreFilteredRow = (row: Uint8Array) => {
+  let total = 0
+  for (let index = 0; index < row.length; index += 1) {
+    total += row[index] < 128 ? row[index] : 256 - row[index]
+  }
+  return total
+}
+
+/** Filters every scanline and deflates the result into IDAT data. */
+const compressFrame = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  compression: PngCompression,
+) => {
+  const { level, adaptiveFilter } = COMPRESSION_SETTINGS[compression]
+  const stride = width * BYTES_PER_PIXEL
+  const filtered = new Uint8Array((stride + 1) * height)
+  const candidate = new Uint8Array(stride)
+
+  for (let y = 0; y < height; y += 1) {
+    const row = pixels.subarray(y * stride, (y + 1) * stride)
+    const previous =
+      y > 0 ? pixels.subarray((y - 1) * stride, y * stride) : null
+    const target = filtered.subarray(
+      y * (stride + 1) + 1,
+      (y + 1) * (stride + 1),
+    )
+
+    if (!adaptiveFilter) {
+      filtered[y * (stride + 1)] = 1
+      filterRow(1, row, previous, target)
+      continue
+    }
+
+    let bestScore = Infinity
+    for (let filter = 0; filter <= 4; filter += 1) {
+      filterRow(filter, row, previous, candidate)
+      const score = scoreFilteredRow(candidate)
+      if (score < bestScore) {
+        bestScore = score
+        filtered[y * (stride + 1)] = filter
+        target.set(candidate)
+      }
+    }
+  }
+
+  return zlibSync(filtered, { level })
+}
+
+class ChunkWriter {
+  private parts: Uint8Array[] = []
+  private length = 0
+
+  raw(bytes: ArrayLike<number>) {
+    const part = Uint8Array.from(bytes)
+    this.parts.push(part)
+    this.length += part.length
+  }
+
+  chunk(type: string, data: Uint8Array) {
+    const body = new Uint8Array(4 + data.length)
+    for (let index = 0; index < 4; index += 1) {
+      body[index] = type.charCodeAt(index)
+    }
+    body.set(data, 4)
+    const header = new Uint8Array(4)
+    new DataView(header.buffer).setUint32(0, data.length)
+    const footer = new Uint8Array(4)
+    new DataView(footer.buffer).setUint32(0, crc32(body))
+    this.parts.push(header, body, footer)
+    this.length += body.length + 8
+  }
+
+  result() {
+    const output = new Uint8Array(this.length)
+    let offset = 0
+    for (const part of this.parts) {
+      output.set(part, offset)
+      offset += part.length
+    }
+    return output
+  }
+}
+
+const createData = (size: number, write: (view: DataView) => void) => {
+  const data = new Uint8Array(size)
+  write(new DataView(data.buffer))
+  return data
+}
+
+export const encodeApng = (
+  {
+    width,
+    height,
+    frames,
+    steps,
+    loopCount,
+    compression,
+    text = {},
+  }: ApngEncodeOptions,
+  onProgress?: EncodeProgressCallback,
+): Uint8Array<ArrayBuffer> => {
+  if (!steps.length) {
+    throw new Error('No frames available for APNG rendering.')
+  }
+
+  let bytesWritten = 0
+  const compressed = frames.map((pixels, index) => {
+    const data = compressFrame(pixels, width, height, compression)
+    bytesWritten += data.length
+    onProgress?.((index + 1) / frames.length, bytesWritten)
+    return data
+  })
+  const writer = new ChunkWriter()
+  writer.raw(PNG_SIGNATURE)
+  writer.chunk(
+    'IHDR',
+    createData(13, (view) => {
+      view.setUint32(0, width)
+      view.setUint32(4, height)
+      view.setUint8(8, 8)
+      // Colour type 6: truecolour with alpha.
+      view.setUint8(9, 6)
+    }),
+  )
+  writer.chunk(
+    'acTL',
+    createData(8, (view) => {
+      view.setUint32(0, steps.length)
+      view.setUint32(4, loopCount)
+    }),
+  )
+  for (const [keyword, value] of Object.entries(text)) {
+    const data = new Uint8Array(keyword.length + 1 + value.length)
+    for (let index = 0; index < keyword.length; index += 1) {
+      data[index] = keyword.charCodeAt(index)
+    }
+    // A null byte separates the keyword from the text.
+    for (let index = 0; index < value.length; index += 1) {
+      data[keyword.length + 1 + index] = value.charCodeAt(index)
+    }
+    writer.chunk('tEXt', data)
+  }
+
+  let sequence = 0
+  steps.forEach((step, index) => {
+    writer.chunk(
+      'fcTL',
+      createData(26, (view) => {
+        view.setUint32(0, sequence)
+        view.setUint32(4, width)
+        view.setUint32(8, height)
+        // Offsets stay 0; delays are stored as milliseconds over 1000.
+        view.setUint16(20, Math.max(1, Math.round(step.delayMs)))
+        view.setUint16(22, 1000)
+        // dispose_op NONE, blend_op SOURCE: each frame replaces the canvas.
+        view.setUint8(24, 0)
+        view.setUint8(25, 0)
+      }),
+    )
+    sequence += 1
+
+    const data = compressed[step.frame]
+    if (index === 0) {
+      writer.chunk('IDAT', data)
+      return
+    }
+    const frameData = new Uint8Array(4 + data.length)
+    new DataView(frameData.buffer).setUint32(0, sequence)
+    frameData.set(data, 4)
+    writer.chunk('fdAT', frameData)
+    sequence += 1
+  })
+
+  writer.chunk('IEND', new Uint8Array(0))
+  return writer.result()
+}
@@ -0,0 +1,27 @@
+import { encodeApng } from './apng.ts'
+import type { ApngEncodeOptions } from './apng.ts'
+
+export type ApngWorkerRequest = ApngEncodeOptions
+
+export type ApngWorkerResponse =
+  | { progress: number; bytesWritten: number }
+  | { bytes: Uint8Array<ArrayBuffer> }
+  | { error: string }
+
+self.onmessage = (event: MessageEvent<ApngWorkerRequest>) => {
+  try {
+    const bytes = encodeApng(event.data, (progress, bytesWritten) =>
+      self.postMessage({
+        progress,
+        bytesWritten,
+      } satisfies ApngWorkerResponse),
+    )
+    self.postMessage({ bytes } satisfies ApngWorkerResponse, {
+      transfer: [bytes.buffer],
+    })
+  } catch (error) {
+    self.postMessage({
+      error: error instanceof Error ? error.message : 'APNG encoding failed.',
+    } satisfies ApngWorkerResponse)
+  }
+}
@@ -0,0 +1,147 @@
+import type { LoadedImage, Point } from '../types.ts'
+import type { FrameTransform } from './frameGesture.ts'
+
+/**
+ * Control points mark the same features on several frames. They are kept in
+ * the frame's own pixels from its top-left corner, so they stay on their
+ * feature when the frame is moved, and points with the same number (list
+ * position) on two frames match.
+ */
+
+export const MIN_CONTROL_POINT_PAIRS = 2
+
+/** Maps a point in frame pixels to stage pixels from the frames' centre. */
+export const frameToStagePoint = (
+  image: LoadedImage,
+  point: Point,
+): Point | null => {
+  const { naturalWidth, naturalHeight, adjustments } = image
+  if (!naturalWidth || !naturalHeight) return null
+  const angle = (adjustments.rotation * Math.PI) / 180
+  const cos = Math.cos(angle) * adjustments.scale
+  const sin = Math.sin(angle) * adjustments.scale
+  const x = point.x - naturalWidth / 2
+  const y = point.y - naturalHeight / 2
+  return {
+    x: adjustments.offsetX + x * cos - y * sin,
+    y: adjustments.offsetY + x * sin + y * cos,
+  }
+}
+
+/**
+ * Maps a stage point back into frame pixels, or null when it falls outside
+ * the frame.
+ */
+export const stageToFramePoint = (
+  image: LoadedImage,
+  point: Point,
+): Point | null => {
+  const { naturalWidth, naturalHeight, adjustments } = image
+  if (!naturalWidth || !naturalHeight || !adjustments.scale) return null
+  const angle = (-adjustments.rotation * Math.PI) / 180
+  const cos = Math.cos(angle) / adjustments.scale
+  const sin = Math.sin(angle) / adjustments.scale
+  const x = point.x - adjustments.offsetX
+  const y = point.y - adjustments.offsetY
+  const framePoint = {
+    x: naturalWidth / 2 + x * cos - y * sin,
+    y: naturalHeight / 2 + x * sin + y * cos,
+  }
+  return framePoint.x >= 0 &&
+    framePoint.y >= 0 &&
+    framePoint.x <= naturalWidth &&
+    framePoint.y <= naturalHeight
+    ? framePoint
+    : null
+}
+
+/**
+ * Matches the frame's points with the reference's: each pair holds the
+ * frame point relative to the frame's centre and where its match sits on
+ * the stage.
+ */
+const getPointPairs = (image: LoadedImage, reference: LoadedImage) => {
+  const { naturalWidth, naturalHeight } = image
+  if (!naturalWidth || !naturalHeight) return []
+  const points = image.controlPoints ?? []
+  return (reference.controlPoints ?? [])
+    .slice(0, points.length)
+    .flatMap((referencePoint, index) => {
+      const target = frameToStagePoint(reference, referencePoint)
+      if (!target) return []
+      const source = {
+        x: points[index].x - naturalWidth / 2,
+        y: points[index].y - naturalHeight / 2,
+      }
+      return [{ source, target }]
+    })
+}
+
+/**
+ * Solves the rotation, uniform scale and offset that take the frame's
+ * points closest to their matches on the reference, in the least-squares
+ * sense. Returns null with fewer than two pairs or when the frame's points
+ * coincide.
+ */
+export const solveControlPoints = (
+  image: LoadedImage,
+  reference: LoadedImage,
+): FrameTransform | null => {
+  const pairs = getPointPairs(image, reference)
+  if (pairs.length < MIN_CONTROL_POINT_PAIRS) return null
+
+  const mean = (pick: (pair: (typeof pairs)[number]) => Point) => ({
+    x: pairs.reduce((sum, pair) => sum + pick(pair).x, 0) / pairs.length,
+    y: pairs.reduce((sum, pair) => sum + pick(pair).y, 0) / pairs.length,
+  })
+  const sourceMean = mean((pair) => pair.source)
+  const targetMean = mean((pair) => pair.target)
+
+  // With both point sets centred, the best rotation and scale follow from
+  // the summed dot and cross products of matching points.
+  let dot = 0
+  let cross = 0
+  let spread = 0
+  for (const { source, target } of pairs) {
+    const sx = source.x - sourceMean.x
+    const sy = source.y - sourceMean.y
+    const tx = target.x - targetMean.x
+    const ty = target.y - targetMean.y
+    dot += sx * tx + sy * ty
+    cross += sx * ty - sy * tx
+    spread += sx * sx + sy * sy
+  }
+  if (spread < 1e-6) return null
+
+  const angle = Math.atan2(cross, dot)
+  const scale = Math.hypot(dot, cross) / spread
+  const cos = Math.cos(angle) * scale
+  const sin = Math.sin(angle) * scale
+  return {
+    offsetX: targetMean.x - (sourceMean.x * cos - sourceMean.y * sin),
+    offsetY: targetMean.y - (sourceMean.x * sin + sourceMean.y * cos),
+    rotation: (angle * 180) / Math.PI,
+    scale,
+  }
+}
+
+/**
+ * How far each of the frame's points lands from its match on the
+ * reference with the frame as currently aligned, in stage pixels. Points
+ * without a match get null.
+ */
+export const getControlPointResiduals = (
+  image: LoadedImage,
+  reference: LoadedImage,
+): Array<number | null> => {
+  const referencePoints = reference.controlPoints ?? []
+  return (image.controlPoints ?? []).map((point, index) => {
+    const referencePoint = referencePoints[index]
+    if (!referencePoint) return null
+    const position = frameToStagePoint(image, point)
+    const target = frameToStagePoint(reference, referencePoint)
+    return position && target
+      ? Math.hypot(position.x - target.x, position.y - target.y)
+      : null
+  })
+}
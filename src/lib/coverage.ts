@@ -0,0 +1,264 @@
+import type { CropRect, Dimensions, LoadedImage, Point } from '../types.ts'
+import type { CropSizeLimits } from './crop.ts'
+
+/**
+ * Where the transformed frames overlap. Points are in stage pixels from the
+ * frames' shared centre, like the crop position, so a crop inside the
+ * covered area renders without transparent edges.
+ */
+
+/** Points `p` with `normal · p <= offset`. */
+interface HalfPlane {
+  normal: Point
+  offset: number
+}
+
+// Binary search steps for the largest crop at one aspect ratio.
+const FIT_SEARCH_STEPS = 40
+// Free fits try aspect ratios between 1:8 and 8:1.
+const MAX_FREE_ASPECT = 8
+const FREE_ASPECT_SAMPLES = 33
+const FREE_ASPECT_REFINE_STEPS = 24
+// Slivers thinner than this (in pixels) along the crop edge don't warn.
+const COVERAGE_TOLERANCE = 0.25
+
+const signedArea = (polygon: Point[]) => {
+  let area = 0
+  polygon.forEach((point, index) => {
+    const next = polygon[(index + 1) % polygon.length]
+    area += point.x * next.y - next.x * point.y
+  })
+  return area / 2
+}
+
+/** Keeps the part of a convex polygon inside the half-plane. */
+const clipPolygon = (
+  polygon: Point[],
+  { normal, offset }: HalfPlane,
+): Point[] => {
+  const distance = (point: Point) =>
+    normal.x * point.x + normal.y * point.y - offset
+  const clipped: Point[] = []
+  polygon.forEach((point, index) => {
+    const next = polygon[(index + 1) % polygon.length]
+    const pointDistance = distance(point)
+    const nextDistance = distance(next)
+    if (pointDistance <= 0) clipped.push(point)
+    if (
+      (pointDistance < 0 && nextDistance > 0) ||
+      (pointDistance > 0 && nextDistance < 0)
+    ) {
+      const ratio = pointDistance / (pointDistance - nextDistance)
+      clipped.push({
+        x: point.x + (next.x - point.x) * ratio,
+        y: point.y + (next.y - point.y) * ratio,
+      })
+    }
+  })
+  return clipped
+}
+
+/** The half-planes whose intersection is the convex polygon. */
+const getEdgeHalfPlanes = (polygon: Point[]): HalfPlane[] => {
+  const orientation = Math.sign(signedArea(polygon)) || 1
+  return polygon.map((start, index) => {
+    const end = polygon[(index + 1) % polygon.length]
+    const x = orientation * (end.y - start.y)
+    const y = orientation * (start.x - end.x)
+    const length = Math.hypot(x, y) || 1
+    const normal = { x: x / length, y: y / length }
+    return { normal, offset: normal.x * start.x + normal.y * start.y }
+  })
+}
+
+const getRectCorners = (
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): Point[] => [
+  { x: left, y: top },
+  { x: left + width, y: top },
+  { x: left + width, y: top + height },
+  { x: left, y: top + height },
+]
+
+const intersectPolygons = (polygon: Point[], convex: Point[]) =>
+  getEdgeHalfPlanes(convex).reduce(clipPolygon, polygon)
+
+/** Corners of a frame as drawn, or null until its size is known. */
+export const getFrameCorners = (image: LoadedImage): Point[] | null => {
+  const { naturalWidth, naturalHeight, adjustments } = image
+  if (!image.objectUrl || !naturalWidth || !naturalHeight) return null
+  const angle = (adjustments.rotation * Math.PI) / 180
+  const cos = Math.cos(angle) * adjustments.scale
+  const sin = Math.sin(angle) * adjustments.scale
+  return getRectCorners(
+    -naturalWidth / 2,
+    -naturalHeight / 2,
+    naturalWidth,
+    naturalHeight,
+  ).map(({ x, y }) => ({
+    x: adjustments.offsetX + x * cos - y * sin,
+    y: adjustments.offsetY + x * sin + y * cos,
+  }))
+}
+
+/**
+ * The area every loaded frame covers, or null while none is loaded. An
+ * empty polygon means the frames don't overlap at all.
+ */
+export const getCoveredArea = (images: LoadedImage[]): Point[] | null => {
+  const frames = images
+    .map(getFrameCorners)
+    .filter((corners): corners is Point[] => corners !== null)
+  if (!frames.length) return null
+  return frames.slice(1).reduce(intersectPolygons, frames[0])
+}
+
+/**
+ * The covered part of the crop in crop pixels from its top-left corner, or
+ * null when the frames cover all of it.
+ */
+export const getCoveredCropArea = (
+  covered: Point[],
+  crop: CropRect,
+): Point[] | null => {
+  const left = crop.x - crop.width / 2
+  const top = crop.y - crop.height / 2
+  const inside = intersectPolygons(
+    covered,
+    getRectCorners(left, top, crop.width, crop.height),
+  )
+  const missing = crop.width * crop.height - Math.abs(signedArea(inside))
+  if (missing <= COVERAGE_TOLERANCE * (crop.width + crop.height)) return null
+  return inside.map((point) => ({ x: point.x - left, y: point.y - top }))
+}
+
+/**
+ * Finds the largest crop of the aspect ratio (width over height) inside the
+ * area. Sizes are in units of the crop height.
+ */
+const fitAtAspect = (
+  edges: HalfPlane[],
+  area: Point[],
+  aspectRatio: number,
+  maxHeight: number,
+) => {
+  // A crop `height` tall fits where its centre clears every edge by its
+  // half-extent along that edge's normal.
+  const getCentres = (height: number) =>
+    edges.reduce(
+      (centres, { normal, offset }) =>
+        clipPolygon(centres, {
+          normal,
+          offset:
+            offset -
+            (height *
+              (Math.abs(normal.x) * aspectRatio + Math.abs(normal.y))) /
+              2,
+        }),
+      area,
+    )
+
+  let low = 0
+  let high = maxHeight
+  if (getCentres(high).length) {
+    low = high
+  } else {
+    for (let step = 0; step < FIT_SEARCH_STEPS; step += 1) {
+      const middle = (low + high) / 2
+      if (getCentres(middle).length) {
+        low = middle
+      } else {
+        high = middle
+      }
+    }
+  }
+  // Where the crop can still move, it sits in the middle of that range.
+  const centres = getCentres(low)
+  const xs = centres.map((point) => point.x)
+  const ys = centres.map((point) => point.y)
+  const centre = {
+    x: (Math.min(...xs) + Math.max(...xs)) / 2,
+    y: (Math.min(...ys) + Math.max(...ys)) / 2,
+  }
+  return { height: low, centre }
+}
+
+/**
+ * Returns the largest crop inside the covered area and the stage, keeping
+ * `aspectRatio` (width over height) or, when it is null, whichever ratio
+ * gives the most area. Returns null when no crop of the minimum size fits.
+ */
+export const fitCropToArea = (
+  covered: Point[],
+  stage: Dimensions,
+  aspectRatio: number | null,
+  limits: CropSizeLimits,
+): CropRect | null => {
+  const area = intersectPolygons(
+    covered,
+    getRectCorners(
+      -stage.width / 2,
+      -stage.height / 2,
+      stage.width,
+      stage.height,
+    ),
+  )
+  if (Math.abs(signedArea(area)) < 1) return null
+  const edges = getEdgeHalfPlanes(area)
+  const fit = (ratio: number) => ({
+    ratio,
+    ...fitAtAspect(
+      edges,
+      area,
+      ratio,
+      Math.min(limits.max.height, limits.max.width / ratio),
+    ),
+  })
+  const getArea = ({ ratio, height }: ReturnType<typeof fit>) =>
+    height * height * ratio
+
+  let best = fit(aspectRatio ?? 1)
+  if (aspectRatio === null) {
+    // Sample ratios evenly on a log scale, then refine around the best one.
+    const logMax = Math.log(MAX_FREE_ASPECT)
+    const step = (2 * logMax) / (FREE_ASPECT_SAMPLES - 1)
+    let bestLog = 0
+    for (let index = 0; index < FREE_ASPECT_SAMPLES; index += 1) {
+      const logRatio = -logMax + index * step
+      const candidate = fit(Math.exp(logRatio))
+      if (getArea(candidate) > getArea(best)) {
+        best = candidate
+        bestLog = logRatio
+      }
+    }
+    let low = bestLog - step
+    let high = bestLog + step
+    for (let index = 0; index < FREE_ASPECT_REFINE_STEPS; index += 1) {
+      const third = (high - low) / 3
+      const lower = fit(Math.exp(low + third))
+      const upper = fit(Math.exp(high - third))
+      if (getArea(lower) < getArea(upper)) {
+        low += third
+      } else {
+        high -= third
+      }
+      for (const candidate of [lower, upper]) {
+        if (getArea(candidate) > getArea(best)) best = candidate
+      }
+    }
+  }
+
+  // Leave half a pixel on each side for rounding the crop position.
+  const width = Math.floor(best.height * best.ratio - 1)
+  const height = Math.floor(best.height - 1)
+  if (width < limits.min || height < limits.min) return null
+  return {
+    width,
+    height,
+    x: Math.round(best.centre.x),
+    y: Math.round(best.centre.y),
+  }
+}
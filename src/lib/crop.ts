@@ -0,0 +1,136 @@
+import type { CropRect, Dimensions, LoadedImage, Point } from '../types.ts'
+
+export type CropHandle =
+  | 'move'
+  | 'n'
+  | 's'
+  | 'e'
+  | 'w'
+  | 'ne'
+  | 'nw'
+  | 'se'
+  | 'sw'
+
+export const CROP_RESIZE_HANDLES: Exclude<CropHandle, 'move'>[] = [
+  'nw',
+  'n',
+  'ne',
+  'e',
+  'se',
+  's',
+  'sw',
+  'w',
+]
+
+export interface CropSizeLimits {
+  min: number
+  max: Dimensions
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value))
+
+/**
+ * The area the crop can move within: the largest loaded frame, centred on
+ * the frames, and never smaller than the crop itself.
+ */
+export const getCropStage = (
+  images: LoadedImage[],
+  crop: Dimensions,
+): Dimensions => ({
+  width: Math.max(
+    crop.width,
+    ...images.map((image) => image.naturalWidth ?? 0),
+  ),
+  height: Math.max(
+    crop.height,
+    ...images.map((image) => image.naturalHeight ?? 0),
+  ),
+})
+
+/** Top-left corner of the crop in stage pixels. */
+export const getCropOrigin = (crop: CropRect, stage: Dimensions): Point => ({
+  x: stage.width / 2 + crop.x - crop.width / 2,
+  y: stage.height / 2 + crop.y - crop.height / 2,
+})
+
+/** Moves the crop back inside the stage, keeping its size. */
+export const clampCropPosition = (
+  crop: CropRect,
+  stage: Dimensions,
+): CropRect => {
+  const maxX = Math.max(0, (stage.width - crop.width) / 2)
+  const maxY = Math.max(0, (stage.height - crop.height) / 2)
+  return {
+    ...crop,
+    x: Math.round(clamp(crop.x, -maxX, maxX)),
+    y: Math.round(clamp(crop.y, -maxY, maxY)),
+  }
+}
+
+/**
+ * Applies a handle drag of `delta` stage pixels to the crop as it was when
+ * the drag started. Dragged edges stop at the stage bounds and size limits
+ * while the opposite edges stay put.
+ */
+export const dragCropHandle = (
+  start: CropRect,
+  handle: CropHandle,
+  delta: Point,
+  stage: Dimensions,
+  limits: CropSizeLimits,
+): CropRect => {
+  if (handle === 'move') {
+    return clampCropPosition(
+      { ...start, x: start.x + delta.x, y: start.y + delta.y },
+      stage,
+    )
+  }
+
+  const origin = getCropOrigin(start, stage)
+  let left = origin.x
+  let top = origin.y
+  let right = origin.x + start.width
+  let bottom = origin.y + start.height
+
+  if (handle.includes('w')) {
+    left = clamp(
+      left + delta.x,
+      Math.max(0, right - limits.max.width),
+      right - limits.min,
+    )
+  }
+  if (handle.includes('e')) {
+    right = clamp(
+      right + delta.x,
+      left + limits.min,
+      Math.min(stage.width, left + limits.max.width),
+    )
+  }
+  if (handle.includes('n')) {
+    top = clamp(
+      top + delta.y,
+      Math.max(0, bottom - limits.max.height),
+      bottom - limits.min,
+    )
+  }
+  if (handle.includes('s')) {
+    bottom = clamp(
+      bottom + delta.y,
+      top + limits.min,
+      Math.min(stage.height, top + limits.max.height),
+    )
+  }
+
+  const width = Math.round(right - left)
+  const height = Math.round(bottom - top)
+  return clampCropPosition(
+    {
+      width,
+      height,
+      x: left + width / 2 - stage.width / 2,
+      y: top + height / 2 - stage.height / 2,
+    },
+    stage,
+  )
+}
@@ -0,0 +1,189 @@
+import type { ImageMetadata } from '../types.ts'
+import { ensureImageElement } from './rendering.ts'
+import {
+  createTiffReader,
+  findJpegSegment,
+  readAscii,
+  readIfd,
+  readInteger,
+  readRational,
+} from './tiff.ts'
+import type { IfdEntry, TiffReader } from './tiff.ts'
+
+/**
+ * Reads EXIF orientation and capture details from JPEG files. Browsers
+ * disagree on when to honour the orientation tag, so imports bake it into
+ * the pixels and every later step sees an upright image.
+ */
+
+const EXIF_IDENTIFIER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00] // "Exif\0\0"
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+const TAG_FOCAL_LENGTH = 0x920a
+const TAG_FOCAL_LENGTH_35MM = 0xa405
+
+// Re-encoding is only needed for rotated photos; keep it close to lossless.
+const ORIENTED_JPEG_QUALITY = 0.95
+
+interface ExifData {
+  orientation: number
+  /** Where the orientation value is stored, so it can be reset. */
+  orientationPosition: number | null
+  littleEndian: boolean
+  metadata: ImageMetadata
+}
+
+export interface ImportedImage {
+  file: File
+  metadata?: ImageMetadata
+}
+
+// EXIF dates look like "2024:03:12 14:03:22".
+const parseExifDate = (value: string | null) => {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/,
+  )
+  if (!match || match[1] === '0000') return undefined
+  const [, year, month, day, hours, minutes, seconds] = match
+  return `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`
+}
+
+const readExif = (bytes: Uint8Array): ExifData | null => {
+  const header = findJpegSegment(bytes, 0, 0xe1, EXIF_IDENTIFIER)
+  if (header === null) return null
+  const reader = createTiffReader(bytes, header)
+  if (!reader) return null
+
+  const { entries } = readIfd(
+    reader,
+    reader.view.getUint32(header + 4, reader.littleEndian),
+  )
+  const get = <T>(
+    read: (reader: TiffReader, entry: IfdEntry) => T,
+    source: Map<number, IfdEntry>,
+    tag: number,
+  ) => {
+    const entry = source.get(tag)
+    return entry ? read(reader, entry) : null
+  }
+
+  const exifOffset = get(readInteger, entries, TAG_EXIF_IFD)
+  const exifEntries = exifOffset
+    ? readIfd(reader, exifOffset).entries
+    : new Map<number, IfdEntry>()
+
+  const make = get(readAscii, entries, TAG_MAKE)
+  const model = get(readAscii, entries, TAG_MODEL)
+  // Models usually repeat the make, as in "Canon" and "Canon EOS R6".
+  const camera =
+    make && model && !model.toLowerCase().startsWith(make.toLowerCase())
+      ? `${make} ${model}`
+      : (model ?? make)
+  const focalLength = get(readRational, exifEntries, TAG_FOCAL_LENGTH)
+  const focalLength35mm = get(readInteger, exifEntries, TAG_FOCAL_LENGTH_35MM)
+
+  const metadata: ImageMetadata = {}
+  const capturedAt =
+    parseExifDate(get(readAscii, exifEntries, TAG_DATE_TIME_ORIGINAL)) ??
+    parseExifDate(get(readAscii, entries, TAG_DATE_TIME))
+  if (capturedAt) metadata.capturedAt = capturedAt
+  if (camera) metadata.camera = camera
+  if (focalLength) {
+    metadata.focalLength = Math.round(focalLength * 10) / 10
+  }
+  if (focalLength35mm) {
+    metadata.focalLength35mm = focalLength35mm
+  }
+
+  const orientationEntry = entries.get(TAG_ORIENTATION)
+  return {
+    orientation: orientationEntry
+      ? (readInteger(reader, orientationEntry) ?? 1)
+      : 1,
+    orientationPosition:
+      orientationEntry?.type === 3 ? orientationEntry.valueOffset : null,
+    littleEndian: reader.littleEndian,
+    metadata,
+  }
+}
+
+type Transform = [number, number, number, number, number, number]
+
+/** Maps raw pixels of `width` × `height` to the upright image. */
+const ORIENTATION_TRANSFORMS: Record<
+  number,
+  (width: number, height: number) => Transform
+> = {
+  2: (width) => [-1, 0, 0, 1, width, 0],
+  3: (width, height) => [-1, 0, 0, -1, width, height],
+  4: (_, height) => [1, 0, 0, -1, 0, height],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (_, height) => [0, 1, -1, 0, height, 0],
+  7: (width, height) => [0, -1, -1, 0, height, width],
+  8: (width) => [0, -1, 1, 0, 0, width],
+}
+
+/**
+ * Decodes the photo with its orientation tag reset, so no browser rotates
+ * it, then draws it upright and re-encodes it.
+ */
+const applyOrientation = async (
+  file: File,
+  bytes: Uint8Array,
+  { orientation, orientationPosition, littleEndian }: ExifData,
+): Promise<File> => {
+  const transform = ORIENTATION_TRANSFORMS[orientation]
+  if (!transform || orientationPosition === null) return file
+
+  const unrotated = bytes.slice()
+  new DataView(unrotated.buffer).setUint16(orientationPosition, 1, littleEndian)
+  const url = URL.createObjectURL(new Blob([unrotated], { type: file.type }))
+  try {
+    const element = await ensureImageElement(url)
+    const width = element.naturalWidth
+    const height = element.naturalHeight
+    const canvas = document.createElement('canvas')
+    // Orientations 5–8 swap the axes.
+    canvas.width = orientation >= 5 ? height : width
+    canvas.height = orientation >= 5 ? width : height
+    const context = canvas.getContext('2d')
+    if (!context) return file
+    context.setTransform(...transform(width, height))
+    context.drawImage(element, 0, 0)
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/jpeg', ORIENTED_JPEG_QUALITY),
+    )
+    return blob
+      ? new File([blob], file.name, {
+          type: 'image/jpeg',
+          lastModified: file.lastModified,
+        })
+      : file
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Prepares a photo for import: reads its capture details and returns an
+ * upright copy when its EXIF orientation rotates or flips it. Files without
+ * readable EXIF data come back unchanged.
+ */
+export const readImageFile = async (file: File): Promise<ImportedImage> => {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const exif = readExif(bytes)
+    if (!exif) return { file }
+    const metadata = Object.keys(exif.metadata).length
+      ? exif.metadata
+      : undefined
+    return { file: await applyOrientation(file, bytes, exif), metadata }
+  } catch {
+    return { file }
+  }
+}
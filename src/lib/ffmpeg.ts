@@ -0,0 +1,34 @@
+import { FFmpeg } from '@ffmpeg/ffmpeg'
+
+let ffmpegInstance: FFmpeg | null = null
+let ffmpegLoadingPromise: Promise<void> | null = null
+
+export const getFfmpeg = async () => {
+  if (!ffmpegInstance) {
+    ffmpegInstance = new FFmpeg()
+  }
+
+  if (!ffmpegInstance.loaded) {
+    if (!ffmpegLoadingPromise) {
+      ffmpegLoadingPromise = ffmpegInstance
+        .load()
+        .then(() => undefined)
+        .finally(() => {
+          ffmpegLoadingPromise = null
+        })
+    }
+    await ffmpegLoadingPromise
+  }
+
+  return ffmpegInstance
+}
+
+/**
+ * Stops any running job by terminating the ffmpeg worker. Its in-memory
+ * file system goes with it; the next getFfmpeg call loads a fresh instance.
+ */
+export const terminateFfmpeg = () => {
+  ffmpegInstance?.terminate()
+  ffmpegInstance = null
+  ffmpegLoadingPromise = null
+}
@@ -0,0 +1,124 @@
+import type { ImageAdjustments, Point } from '../types.ts'
+
+/**
+ * Direct manipulation of a frame in the viewport. Points are in stage pixels
+ * from the frames' shared centre, the same space as the frame offsets, so a
+ * gesture moves the frame by exactly the pixels it moves in the export.
+ */
+
+export type FrameTransform = Pick<
+  ImageAdjustments,
+  'offsetX' | 'offsetY' | 'rotation' | 'scale'
+>
+
+export const MIN_FRAME_SCALE = 0.1
+
+// Scale factor per pixel of wheel travel.
+const WHEEL_ZOOM_RATE = 0.0015
+// Trackpad pinches arrive as ctrl+wheel events with much smaller deltas.
+const PINCH_WHEEL_BOOST = 8
+const WHEEL_LINE_HEIGHT = 16
+// Pinches shorter than this (in stage pixels) give unstable angles.
+const MIN_PINCH_DISTANCE = 4
+
+/** The angle from one direction to another in degrees, within ±180°. */
+const getTurn = (from: Point, to: Point) => {
+  const degrees =
+    ((Math.atan2(to.y, to.x) - Math.atan2(from.y, from.x)) * 180) / Math.PI
+  return ((((degrees + 180) % 360) + 360) % 360) - 180
+}
+
+/**
+ * Applies a rotation (in degrees) and scale factor about the pivot to the
+ * frame, so the point under the pivot stays put.
+ */
+export const transformAround = (
+  transform: FrameTransform,
+  pivot: Point,
+  degrees: number,
+  scaleFactor: number,
+): FrameTransform => {
+  const factor =
+    Math.max(MIN_FRAME_SCALE, transform.scale * scaleFactor) / transform.scale
+  const angle = (degrees * Math.PI) / 180
+  const x = transform.offsetX - pivot.x
+  const y = transform.offsetY - pivot.y
+  return {
+    offsetX: pivot.x + factor * (x * Math.cos(angle) - y * Math.sin(angle)),
+    offsetY: pivot.y + factor * (x * Math.sin(angle) + y * Math.cos(angle)),
+    rotation: transform.rotation + degrees,
+    scale: transform.scale * factor,
+  }
+}
+
+/**
+ * Moves the frame with one or two pointers going from `from` to `to`. One
+ * pointer drags; two also pinch and twist about the first one.
+ */
+export const transformByPointers = (
+  start: FrameTransform,
+  from: Point[],
+  to: Point[],
+): FrameTransform => {
+  if (!from.length || from.length !== to.length) return start
+  const moved = {
+    ...start,
+    offsetX: start.offsetX + to[0].x - from[0].x,
+    offsetY: start.offsetY + to[0].y - from[0].y,
+  }
+  if (from.length < 2) return moved
+
+  const before = { x: from[1].x - from[0].x, y: from[1].y - from[0].y }
+  const after = { x: to[1].x - to[0].x, y: to[1].y - to[0].y }
+  const startDistance = Math.hypot(before.x, before.y)
+  const distance = Math.hypot(after.x, after.y)
+  if (startDistance < MIN_PINCH_DISTANCE || distance < MIN_PINCH_DISTANCE) {
+    return moved
+  }
+  return transformAround(
+    moved,
+    to[0],
+    getTurn(before, after),
+    distance / startDistance,
+  )
+}
+
+export type WheelInput = Pick<WheelEvent, 'deltaY' | 'deltaMode' | 'ctrlKey'>
+
+/**
+ * How far a wheel event scrolls in pixels, with line-based wheels and
+ * trackpad pinches brought to the same scale as pixel-based wheels.
+ */
+export const getWheelPixels = ({ deltaY, deltaMode, ctrlKey }: WheelInput) =>
+  deltaY *
+  (deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1) *
+  (ctrlKey ? PINCH_WHEEL_BOOST : 1)
+
+/** Zooms the frame about the pointer for one wheel event. */
+export const transformByWheel = (
+  transform: FrameTransform,
+  pivot: Point,
+  wheel: WheelInput,
+): FrameTransform =>
+  transformAround(
+    transform,
+    pivot,
+    0,
+    Math.exp(-getWheelPixels(wheel) * WHEEL_ZOOM_RATE),
+  )
+
+/**
+ * Rotates the frame about its centre by the angle the pointer swept around
+ * it from `from` to `to`.
+ */
+export const transformByRotateHandle = (
+  start: FrameTransform,
+  from: Point,
+  to: Point,
+): FrameTransform => {
+  const turn = getTurn(
+    { x: from.x - start.offsetX, y: from.y - start.offsetY },
+    { x: to.x - start.offsetX, y: to.y - start.offsetY },
+  )
+  return { ...start, rotation: start.rotation + turn }
+}
@@ -0,0 +1,474 @@
+import type { GifDithering } from '../types.ts'
+
+/**
+ * Animated GIF encoder. All frames share one global palette built with
+ * median cut, so colours stay put between frames.
+ */
+
+export interface GifFrameStep {
+  /** Index into the encoded frames. */
+  frame: number
+  delayMs: number
+}
+
+export interface GifEncodeOptions {
+  width: number
+  height: number
+  /** RGBA pixels of each distinct frame. */
+  frames: Uint8ClampedArray[]
+  steps: GifFrameStep[]
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number
+  dithering: GifDithering
+  maxColors: number
+  /** Histogram every nth pixel when building the palette. */
+  sampleInterval: number
+  /** Plain ASCII text stored in a comment extension. */
+  comment?: string
+}
+
+/** Reports the share of frames encoded and the compressed bytes so far. */
+export type EncodeProgressCallback = (
+  ratio: number,
+  bytesWritten: number,
+) => void
+
+type Rgb = [number, number, number]
+
+interface ColorBox {
+  bins: number[]
+  count: number
+}
+
+// Pixels below this alpha become the transparent palette entry.
+const ALPHA_THRESHOLD = 128
+const HISTOGRAM_BITS = 5
+const LOOKUP_BITS = 6
+const MAX_LZW_CODE = 4096
+const BAYER_STRENGTH = 48
+
+const BAYER_8X8 = [
+  0, 32, 8, 40, 2, 34, 10, 42, 48, 16, 56, 24, 50, 18, 58, 26, 12, 44, 4, 36,
+  14, 46, 6, 38, 60, 28, 52, 20, 62, 30, 54, 22, 3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25, 15, 47, 7, 39, 13, 45, 5, 37, 63, 31, 55, 23,
+  61, 29, 53, 21,
+]
+
+const toBin = (r: number, g: number, b: number) => {
+  const shift = 8 - HISTOGRAM_BITS
+  return (
+    ((r >> shift) << (HISTOGRAM_BITS * 2)) |
+    ((g >> shift) << HISTOGRAM_BITS) |
+    (b >> shift)
+  )
+}
+
+/**
+ * Builds a palette of at most `maxColors` entries for every opaque pixel of
+ * every frame.
+ */
+export const buildPalette = (
+  frames: Uint8ClampedArray[],
+  maxColors: number,
+  sampleInterval = 1,
+): Rgb[] => {
+  const binCount = 1 << (HISTOGRAM_BITS * 3)
+  const counts = new Uint32Array(binCount)
+  const sums = new Float64Array(binCount * 3)
+  const stride = Math.max(1, Math.round(sampleInterval)) * 4
+
+  for (const pixels of frames) {
+    for (let offset = 0; offset < pixels.length; offset += stride) {
+      if (pixels[offset + 3] < ALPHA_THRESHOLD) continue
+      const bin = toBin(pixels[offset], pixels[offset + 1], pixels[offset + 2])
+      counts[bin] += 1
+      sums[bin * 3] += pixels[offset]
+      sums[bin * 3 + 1] += pixels[offset + 1]
+      sums[bin * 3 + 2] += pixels[offset + 2]
+    }
+  }
+
+  const used: number[] = []
+  counts.forEach((count, bin) => {
+    if (count) used.push(bin)
+  })
+  if (!used.length) return [[0, 0, 0]]
+
+  const binColor = (bin: number, channel: number) =>
+    sums[bin * 3 + channel] / counts[bin]
+
+  const getRange = (box: ColorBox) => {
+    const min = [255, 255, 255]
+    const max = [0, 0, 0]
+    for (const bin of box.bins) {
+      for (let channel = 0; channel < 3; channel += 1) {
+        const value = binColor(bin, channel)
+        if (value < min[channel]) min[channel] = value
+        if (value > max[channel]) max[channel] = value
+      }
+    }
+    const ranges = max.map((value, channel) => value - min[channel])
+    const axis = ranges.indexOf(Math.max(...ranges))
+    return { axis, range: ranges[axis] }
+  }
+
+  const boxes: ColorBox[] = [
+    { bins: used, count: used.reduce((total, bin) => total + counts[bin], 0) },
+  ]
+
+  while (boxes.length < maxColors) {
+    let bestIndex = -1
+    let bestScore = 0
+    let bestAxis = 0
+    boxes.forEach((box, index) => {
+      if (box.bins.length < 2) return
+      const { axis, range } = getRange(box)
+      const score = range * box.count
+      if (score > bestScore) {
+        bestScore = score
+        bestIndex = index
+        bestAxis = axis
+      }
+    })
+    if (bestIndex < 0) break
+
+    const box = boxes[bestIndex]
+    const sorted = [...box.bins].sort(
+      (first, second) =>
+        binColor(first, bestAxis) - binColor(second, bestAxis),
+    )
+    // Split at the weighted median, keeping both halves non-empty.
+    let running = 0
+    let split = 1
+    for (let index = 0; index < sorted.length - 1; index += 1) {
+      running += counts[sorted[index]]
+      split = index + 1
+      if (running >= box.count / 2) break
+    }
+    const lower = sorted.slice(0, split)
+    const upper = sorted.slice(split)
+    boxes.splice(
+      bestIndex,
+      1,
+      { bins: lower, count: running },
+      { bins: upper, count: box.count - running },
+    )
+  }
+
+  return boxes.map((box) => {
+    const total: Rgb = [0, 0, 0]
+    for (const bin of box.bins) {
+      total[0] += sums[bin * 3]
+      total[1] += sums[bin * 3 + 1]
+      total[2] += sums[bin * 3 + 2]
+    }
+    return total.map((value) => Math.round(value / box.count)) as Rgb
+  })
+}
+
+const createNearestColor = (palette: Rgb[]) => {
+  const shift = 8 - LOOKUP_BITS
+  const cache = new Int16Array(1 << (LOOKUP_BITS * 3)).fill(-1)
+  return (r: number, g: number, b: number) => {
+    const key =
+      ((r >> shift) << (LOOKUP_BITS * 2)) |
+      ((g >> shift) << LOOKUP_BITS) |
+      (b >> shift)
+    const cached = cache[key]
+    if (cached >= 0) return cached
+    let best = 0
+    let bestDistance = Infinity
+    for (let index = 0; index < palette.length; index += 1) {
+      const [pr, pg, pb] = palette[index]
+      const distance = (pr - r) ** 2 + (pg - g) ** 2 + (pb - b) ** 2
+      if (distance < bestDistance) {
+        bestDistance = distance
+        best = index
+      }
+    }
+    cache[key] = best
+    return best
+  }
+}
+
+const clampChannel = (value: number) =>
+  value < 0 ? 0 : value > 255 ? 255 : Math.round(value)
+
+/**
+ * Maps RGBA pixels to palette indices. Transparent pixels get
+ * `transparentIndex` and never take part in error diffusion.
+ */
+export const indexFrame = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Rgb[],
+  dithering: GifDithering,
+  transparentIndex: number,
+  nearest = createNearestColor(palette),
+): Uint8Array => {
+  const indices = new Uint8Array(width * height)
+  // Floyd–Steinberg error for the current and next row.
+  let currentErrors = new Float32Array((width + 2) * 3)
+  let nextErrors = new Float32Array((width + 2) * 3)
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const pixel = y * width + x
+      const offset = pixel * 4
+      if (pixels[offset + 3] < ALPHA_THRESHOLD) {
+        indices[pixel] = transparentIndex
+        continue
+      }
+
+      let r = pixels[offset]
+      let g = pixels[offset + 1]
+      let b = pixels[offset + 2]
+      if (dithering === 'floyd-steinberg') {
+        const errorOffset = (x + 1) * 3
+        r = clampChannel(r + currentErrors[errorOffset])
+        g = clampChannel(g + currentErrors[errorOffset + 1])
+        b = clampChannel(b + currentErrors[errorOffset + 2])
+      } else if (dithering === 'bayer') {
+        const threshold =
+          (BAYER_8X8[(y % 8) * 8 + (x % 8)] / 64 - 0.5) * BAYER_STRENGTH
+        r = clampChannel(r + threshold)
+        g = clampChannel(g + threshold)
+        b = clampChannel(b + threshold)
+      }
+
+      const index = nearest(r, g, b)
+      indices[pixel] = index
+
+      if (dithering === 'floyd-steinberg') {
+        const color = palette[index]
+        const errors = [r - color[0], g - color[1], b - color[2]]
+        const right = (x + 2) * 3
+        const below = (x + 1) * 3
+        for (let channel = 0; channel < 3; channel += 1) {
+          const error = errors[channel]
+          currentErrors[right + channel] += (error * 7) / 16
+          nextErrors[below - 3 + channel] += (error * 3) / 16
+          nextErrors[below + channel] += (error * 5) / 16
+          nextErrors[below + 3 + channel] += error / 16
+        }
+      }
+    }
+    if (dithering === 'floyd-steinberg') {
+      const finished = currentErrors
+      currentErrors = nextErrors
+      nextErrors = finished.fill(0)
+    }
+  }
+
+  return indices
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16)
+  length = 0
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + extra) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+  }
+
+  byte(value: number) {
+    this.ensure(1)
+    this.buffer[this.length] = value & 0xff
+    this.length += 1
+  }
+
+  word(value: number) {
+    this.byte(value)
+    this.byte(value >> 8)
+  }
+
+  bytes(values: ArrayLike<number>) {
+    this.ensure(values.length)
+    this.buffer.set(values, this.length)
+    this.length += values.length
+  }
+
+  text(value: string) {
+    for (let index = 0; index < value.length; index += 1) {
+      this.byte(value.charCodeAt(index))
+    }
+  }
+
+  result() {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+/** LZW-compresses indices and splits them into GIF data sub-blocks. */
+const encodeLzw = (indices: Uint8Array, minCodeSize: number) => {
+  const output = new ByteWriter()
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+  let bits = 0
+  let bitCount = 0
+
+  const emit = (code: number) => {
+    bits |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      output.byte(bits)
+      bits >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  let prefix = indices[0]
+  for (let index = 1; index < indices.length; index += 1) {
+    const symbol = indices[index]
+    const key = (prefix << 8) | symbol
+    const code = table.get(key)
+    if (code !== undefined) {
+      prefix = code
+      continue
+    }
+    emit(prefix)
+    if (nextCode === MAX_LZW_CODE) {
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize += 1
+      table.set(key, nextCode)
+      nextCode += 1
+    }
+    prefix = symbol
+  }
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) output.byte(bits)
+
+  const data = output.result()
+  const blocks = new ByteWriter()
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, offset + 255)
+    blocks.byte(chunk.length)
+    blocks.bytes(chunk)
+  }
+  blocks.byte(0)
+  return blocks.result()
+}
+
+export const encodeGif = (
+  {
+    width,
+    height,
+    frames,
+    steps,
+    loopCount,
+    dithering,
+    maxColors,
+    sampleInterval,
+    comment,
+  }: GifEncodeOptions,
+  onProgress?: EncodeProgressCallback,
+): Uint8Array<ArrayBuffer> => {
+  if (!steps.length) {
+    throw new Error('No frames available for GIF rendering.')
+  }
+
+  const hasTransparency = frames.some((pixels) => {
+    for (let offset = 3; offset < pixels.length; offset += 4) {
+      if (pixels[offset] < ALPHA_THRESHOLD) return true
+    }
+    return false
+  })
+  const colorLimit = Math.max(2, Math.min(256, maxColors))
+  const palette = buildPalette(
+    frames,
+    hasTransparency ? colorLimit - 1 : colorLimit,
+    sampleInterval,
+  )
+  const transparentIndex = hasTransparency ? palette.length : 0
+  const entryCount = palette.length + (hasTransparency ? 1 : 0)
+  const tableBits = Math.max(1, Math.ceil(Math.log2(entryCount)))
+  const minCodeSize = Math.max(2, tableBits)
+
+  const nearest = createNearestColor(palette)
+  let bytesWritten = 0
+  const encodedFrames = frames.map((pixels, index) => {
+    const encoded = encodeLzw(
+      indexFrame(
+        pixels,
+        width,
+        height,
+        palette,
+        dithering,
+        transparentIndex,
+        nearest,
+      ),
+      minCodeSize,
+    )
+    bytesWritten += encoded.length
+    onProgress?.((index + 1) / frames.length, bytesWritten)
+    return encoded
+  })
+
+  const writer = new ByteWriter()
+  writer.text('GIF89a')
+  writer.word(width)
+  writer.word(height)
+  // Global colour table present, 8-bit colour resolution.
+  writer.byte(0x80 | (7 << 4) | (tableBits - 1))
+  writer.byte(0)
+  writer.byte(0)
+  for (let index = 0; index < 1 << tableBits; index += 1) {
+    const color = palette[index] ?? [0, 0, 0]
+    writer.bytes(color)
+  }
+
+  if (loopCount !== 1) {
+    writer.bytes([0x21, 0xff, 0x0b])
+    writer.text('NETSCAPE2.0')
+    // The extension stores repeats after the first play.
+    writer.bytes([0x03, 0x01])
+    writer.word(loopCount > 1 ? loopCount - 1 : 0)
+    writer.byte(0)
+  }
+
+  if (comment) {
+    writer.bytes([0x21, 0xfe])
+    for (let offset = 0; offset < comment.length; offset += 255) {
+      const block = comment.slice(offset, offset + 255)
+      writer.byte(block.length)
+      writer.text(block)
+    }
+    writer.byte(0)
+  }
+
+  for (const step of steps) {
+    writer.bytes([0x21, 0xf9, 0x04])
+    // Restore to background between frames so transparent areas stay clear.
+    writer.byte(hasTransparency ? (2 << 2) | 1 : 1 << 2)
+    writer.word(Math.max(2, Math.round(step.delayMs / 10)))
+    writer.byte(transparentIndex)
+    writer.byte(0)
+
+    writer.byte(0x2c)
+    writer.word(0)
+    writer.word(0)
+    writer.word(width)
+    writer.word(height)
+    writer.byte(0)
+    writer.byte(minCodeSize)
+    writer.bytes(encodedFrames[step.frame])
+  }
+
+  writer.byte(0x3b)
+  return writer.result()
+}
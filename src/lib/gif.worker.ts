@@ -0,0 +1,27 @@
+import { encodeGif } from './gif.ts'
+import type { GifEncodeOptions } from './gif.ts'
+
+export type GifWorkerRequest = GifEncodeOptions
+
+export type GifWorkerResponse =
+  | { progress: number; bytesWritten: number }
+  | { bytes: Uint8Array<ArrayBuffer> }
+  | { error: string }
+
+self.onmessage = (event: MessageEvent<GifWorkerRequest>) => {
+  try {
+    const bytes = encodeGif(event.data, (progress, bytesWritten) =>
+      self.postMessage({
+        progress,
+        bytesWritten,
+      } satisfies GifWorkerResponse),
+    )
+    self.postMessage({ bytes } satisfies GifWorkerResponse, {
+      transfer: [bytes.buffer],
+    })
+  } catch (error) {
+    self.postMessage({
+      error: error instanceof Error ? error.message : 'GIF encoding failed.',
+    } satisfies GifWorkerResponse)
+  }
+}
@@ -0,0 +1,112 @@
+import type { CropRect, LoadedImage, Point } from '../types.ts'
+
+/** The part of the editor state that undo/redo restores. */
+export interface EditorDocument {
+  images: LoadedImage[]
+  activeImageId: string
+  pinnedImageId: string | null
+  crop: CropRect
+  crosshair: Point
+}
+
+export interface HistoryEntry {
+  /** Describes the action that changed the document away from this state. */
+  label: string
+  document: EditorDocument
+}
+
+export interface HistoryState {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  lastKey: string | null
+  lastTime: number
+}
+
+const HISTORY_LIMIT = 100
+// Changes sharing a key within this window (e.g. one slider drag) become a
+// single undo step.
+const COALESCE_WINDOW_MS = 800
+
+export const createHistory = (): HistoryState => ({
+  past: [],
+  future: [],
+  lastKey: null,
+  lastTime: 0,
+})
+
+/**
+ * Records the document as it was before an edit. Consecutive edits with the
+ * same `coalesceKey` extend the previous step instead of adding a new one.
+ */
+export const pushHistory = (
+  history: HistoryState,
+  label: string,
+  document: EditorDocument,
+  coalesceKey?: string,
+  now = Date.now(),
+): HistoryState => {
+  if (
+    coalesceKey &&
+    history.lastKey === coalesceKey &&
+    now - history.lastTime < COALESCE_WINDOW_MS &&
+    history.past.length
+  ) {
+    return { ...history, future: [], lastTime: now }
+  }
+  return {
+    past: [...history.past, { label, document }].slice(-HISTORY_LIMIT),
+    future: [],
+    lastKey: coalesceKey ?? null,
+    lastTime: now,
+  }
+}
+
+/**
+ * Moves through history: negative steps undo, positive steps redo. Returns
+ * null when there is nothing to move to.
+ */
+export const stepHistory = (
+  history: HistoryState,
+  current: EditorDocument,
+  steps: number,
+): { history: HistoryState; document: EditorDocument } | null => {
+  let past = history.past
+  let future = history.future
+  let document = current
+
+  if (steps < 0) {
+    const count = Math.min(-steps, past.length)
+    if (!count) return null
+    for (let index = 0; index < count; index += 1) {
+      const entry = past[past.length - 1]
+      past = past.slice(0, -1)
+      future = [{ label: entry.label, document }, ...future]
+      document = entry.document
+    }
+  } else {
+    const count = Math.min(steps, future.length)
+    if (!count) return null
+    for (let index = 0; index < count; index += 1) {
+      const [entry] = future
+      future = future.slice(1)
+      past = [...past, { label: entry.label, document }]
+      document = entry.document
+    }
+  }
+
+  return {
+    history: { past, future, lastKey: null, lastTime: 0 },
+    document,
+  }
+}
+
+/** Collects every object URL still reachable from the history stacks. */
+export const collectHistoryObjectUrls = (history: HistoryState) => {
+  const urls = new Set<string>()
+  for (const entry of [...history.past, ...history.future]) {
+    entry.document.images.forEach((image) => {
+      if (image.objectUrl) urls.add(image.objectUrl)
+    })
+  }
+  return urls
+}
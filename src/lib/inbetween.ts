@@ -0,0 +1,319 @@
+import type { InbetweenMode } from '../types.ts'
+
+/**
+ * Synthesises frames between two rendered views. Crossfades blend the two
+ * views; flow mode estimates per-block motion between them and warps both
+ * views part of the way, which gives real in-between viewpoints.
+ */
+
+export interface InbetweenOptions {
+  width: number
+  height: number
+  /** RGBA pixels of the two views, both `width` × `height`. */
+  first: Uint8ClampedArray
+  second: Uint8ClampedArray
+  count: number
+  mode: InbetweenMode
+}
+
+interface FlowField {
+  columns: number
+  rows: number
+  /** Motion of each block from the first view to the second, in pixels. */
+  dx: Float32Array
+  dy: Float32Array
+  /** Full-resolution pixels per block. */
+  blockSize: number
+}
+
+// Long edge of the grid motion is estimated on.
+const FLOW_SAMPLE_SIZE = 192
+const BLOCK_SIZE = 8
+const SEARCH_RADIUS = 12
+// Extra cost per pixel of motion, so flat areas stay put instead of
+// matching noise.
+const MOTION_PENALTY = 0.4
+const ALPHA_THRESHOLD = 128
+
+interface Sample {
+  width: number
+  height: number
+  luminance: Float32Array
+  covered: Uint8Array
+}
+
+/** Area-averages the view down to a luminance grid for motion search. */
+const sampleLuminance = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  factor: number,
+): Sample => {
+  const sampleWidth = Math.max(1, Math.round(width * factor))
+  const sampleHeight = Math.max(1, Math.round(height * factor))
+  const luminance = new Float32Array(sampleWidth * sampleHeight)
+  const covered = new Uint8Array(sampleWidth * sampleHeight)
+  for (let y = 0; y < sampleHeight; y += 1) {
+    const top = Math.floor((y * height) / sampleHeight)
+    const bottom = Math.max(
+      top + 1,
+      Math.floor(((y + 1) * height) / sampleHeight),
+    )
+    for (let x = 0; x < sampleWidth; x += 1) {
+      const left = Math.floor((x * width) / sampleWidth)
+      const right = Math.max(
+        left + 1,
+        Math.floor(((x + 1) * width) / sampleWidth),
+      )
+      let sum = 0
+      let opaque = 0
+      for (let sourceY = top; sourceY < bottom; sourceY += 1) {
+        for (let sourceX = left; sourceX < right; sourceX += 1) {
+          const offset = (sourceY * width + sourceX) * 4
+          if (pixels[offset + 3] < ALPHA_THRESHOLD) continue
+          sum +=
+            0.299 * pixels[offset] +
+            0.587 * pixels[offset + 1] +
+            0.114 * pixels[offset + 2]
+          opaque += 1
+        }
+      }
+      const index = y * sampleWidth + x
+      const area = (bottom - top) * (right - left)
+      luminance[index] = opaque ? sum / opaque : 0
+      covered[index] = opaque * 2 >= area ? 1 : 0
+    }
+  }
+  return { width: sampleWidth, height: sampleHeight, luminance, covered }
+}
+
+/** Mean absolute difference of a block against the shifted other view. */
+const blockCost = (
+  first: Sample,
+  second: Sample,
+  left: number,
+  top: number,
+  dx: number,
+  dy: number,
+) => {
+  let total = 0
+  let count = 0
+  for (let y = top; y < Math.min(top + BLOCK_SIZE, first.height); y += 1) {
+    const targetY = y + dy
+    if (targetY < 0 || targetY >= second.height) continue
+    for (let x = left; x < Math.min(left + BLOCK_SIZE, first.width); x += 1) {
+      const targetX = x + dx
+      if (targetX < 0 || targetX >= second.width) continue
+      const index = y * first.width + x
+      const target = targetY * second.width + targetX
+      if (!first.covered[index] || !second.covered[target]) continue
+      total += Math.abs(first.luminance[index] - second.luminance[target])
+      count += 1
+    }
+  }
+  // Blocks that barely overlap the other view can't be trusted.
+  return count * 4 >= BLOCK_SIZE * BLOCK_SIZE ? total / count : Infinity
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((first, second) => first - second)
+  return sorted[sorted.length >> 1]
+}
+
+/** Replaces each vector by the median of its 3×3 neighbourhood. */
+const smoothField = (values: Float32Array, columns: number, rows: number) => {
+  const smoothed = new Float32Array(values.length)
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const neighbours: number[] = []
+      for (
+        let y = Math.max(0, row - 1);
+        y <= Math.min(rows - 1, row + 1);
+        y += 1
+      ) {
+        for (
+          let x = Math.max(0, column - 1);
+          x <= Math.min(columns - 1, column + 1);
+          x += 1
+        ) {
+          neighbours.push(values[y * columns + x])
+        }
+      }
+      smoothed[row * columns + column] = median(neighbours)
+    }
+  }
+  return smoothed
+}
+
+/** Block-matches the views on a reduced grid. */
+const estimateFlow = (
+  first: Uint8ClampedArray,
+  second: Uint8ClampedArray,
+  width: number,
+  height: number,
+): FlowField => {
+  const factor = Math.min(1, FLOW_SAMPLE_SIZE / Math.max(width, height))
+  const firstSample = sampleLuminance(first, width, height, factor)
+  const secondSample = sampleLuminance(second, width, height, factor)
+  const columns = Math.ceil(firstSample.width / BLOCK_SIZE)
+  const rows = Math.ceil(firstSample.height / BLOCK_SIZE)
+  const dx = new Float32Array(columns * rows)
+  const dy = new Float32Array(columns * rows)
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let column = 0; column < columns; column += 1) {
+      const left = column * BLOCK_SIZE
+      const top = row * BLOCK_SIZE
+      let bestCost = blockCost(firstSample, secondSample, left, top, 0, 0)
+      let bestX = 0
+      let bestY = 0
+      for (
+        let offsetY = -SEARCH_RADIUS;
+        offsetY <= SEARCH_RADIUS;
+        offsetY += 1
+      ) {
+        for (
+          let offsetX = -SEARCH_RADIUS;
+          offsetX <= SEARCH_RADIUS;
+          offsetX += 1
+        ) {
+          const cost =
+            blockCost(firstSample, secondSample, left, top, offsetX, offsetY) +
+            MOTION_PENALTY * Math.hypot(offsetX, offsetY)
+          if (cost < bestCost) {
+            bestCost = cost
+            bestX = offsetX
+            bestY = offsetY
+          }
+        }
+      }
+      dx[row * columns + column] = bestX / factor
+      dy[row * columns + column] = bestY / factor
+    }
+  }
+
+  return {
+    columns,
+    rows,
+    dx: smoothField(dx, columns, rows),
+    dy: smoothField(dy, columns, rows),
+    blockSize: BLOCK_SIZE / factor,
+  }
+}
+
+/** Bilinearly interpolates the block vectors at a full-resolution pixel. */
+const sampleFlow = (flow: FlowField, x: number, y: number) => {
+  const gridX = Math.min(
+    flow.columns - 1,
+    Math.max(0, (x + 0.5) / flow.blockSize - 0.5),
+  )
+  const gridY = Math.min(
+    flow.rows - 1,
+    Math.max(0, (y + 0.5) / flow.blockSize - 0.5),
+  )
+  const left = Math.floor(gridX)
+  const top = Math.floor(gridY)
+  const right = Math.min(flow.columns - 1, left + 1)
+  const bottom = Math.min(flow.rows - 1, top + 1)
+  const weightX = gridX - left
+  const weightY = gridY - top
+  const mix = (values: Float32Array) =>
+    (values[top * flow.columns + left] * (1 - weightX) +
+      values[top * flow.columns + right] * weightX) *
+      (1 - weightY) +
+    (values[bottom * flow.columns + left] * (1 - weightX) +
+      values[bottom * flow.columns + right] * weightX) *
+      weightY
+  return { x: mix(flow.dx), y: mix(flow.dy) }
+}
+
+/**
+ * Bilinearly samples RGBA pixels into `target`. Returns false outside the
+ * view or over uncovered pixels.
+ */
+const samplePixel = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  target: Float32Array,
+) => {
+  if (x < 0 || y < 0 || x > width - 1 || y > height - 1) return false
+  const left = Math.floor(x)
+  const top = Math.floor(y)
+  const right = Math.min(width - 1, left + 1)
+  const bottom = Math.min(height - 1, top + 1)
+  const weightX = x - left
+  const weightY = y - top
+  const topLeft = (top * width + left) * 4
+  const topRight = (top * width + right) * 4
+  const bottomLeft = (bottom * width + left) * 4
+  const bottomRight = (bottom * width + right) * 4
+  for (let channel = 0; channel < 4; channel += 1) {
+    target[channel] =
+      (pixels[topLeft + channel] * (1 - weightX) +
+        pixels[topRight + channel] * weightX) *
+        (1 - weightY) +
+      (pixels[bottomLeft + channel] * (1 - weightX) +
+        pixels[bottomRight + channel] * weightX) *
+        weightY
+  }
+  return target[3] >= ALPHA_THRESHOLD
+}
+
+/** Renders the frame `position` (0–1) of the way from first to second. */
+const renderInbetween = (
+  { width, height, first, second }: InbetweenOptions,
+  flow: FlowField | null,
+  position: number,
+) => {
+  const output = new Uint8ClampedArray(width * height * 4)
+  const fromFirst = new Float32Array(4)
+  const fromSecond = new Float32Array(4)
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const motion = flow ? sampleFlow(flow, x, y) : { x: 0, y: 0 }
+      // Each view is pulled along the motion towards the in-between point.
+      const hasFirst = samplePixel(
+        first,
+        width,
+        height,
+        x - position * motion.x,
+        y - position * motion.y,
+        fromFirst,
+      )
+      const hasSecond = samplePixel(
+        second,
+        width,
+        height,
+        x + (1 - position) * motion.x,
+        y + (1 - position) * motion.y,
+        fromSecond,
+      )
+      const offset = (y * width + x) * 4
+      const weight = hasFirst && hasSecond ? position : hasSecond ? 1 : 0
+      if (!hasFirst && !hasSecond) continue
+      for (let channel = 0; channel < 4; channel += 1) {
+        output[offset + channel] =
+          fromFirst[channel] * (1 - weight) + fromSecond[channel] * weight
+      }
+    }
+  }
+  return output
+}
+
+/** Returns `count` evenly spaced frames between the two views. */
+export const createInbetweens = (
+  options: InbetweenOptions,
+): Uint8ClampedArray<ArrayBuffer>[] => {
+  const { width, height, first, second, count, mode } = options
+  if (first.length !== width * height * 4 || second.length !== first.length) {
+    throw new Error('Views must have the same size.')
+  }
+  const flow =
+    mode === 'flow' ? estimateFlow(first, second, width, height) : null
+  return Array.from({ length: count }, (_, index) =>
+    renderInbetween(options, flow, (index + 1) / (count + 1)),
+  )
+}
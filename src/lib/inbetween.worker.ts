@@ -0,0 +1,24 @@
+import { createInbetweens } from './inbetween.ts'
+import type { InbetweenOptions } from './inbetween.ts'
+
+export type InbetweenWorkerRequest = InbetweenOptions
+
+export type InbetweenWorkerResponse =
+  | { frames: Uint8ClampedArray<ArrayBuffer>[] }
+  | { error: string }
+
+self.onmessage = (event: MessageEvent<InbetweenWorkerRequest>) => {
+  try {
+    const frames = createInbetweens(event.data)
+    self.postMessage({ frames } satisfies InbetweenWorkerResponse, {
+      transfer: frames.map((frame) => frame.buffer),
+    })
+  } catch (error) {
+    self.postMessage({
+      error:
+        error instanceof Error
+          ? error.message
+          : 'Generating in-between frames failed.',
+    } satisfies InbetweenWorkerResponse)
+  }
+}
@@ -0,0 +1,69 @@
+import type { ImageAdjustments, LoupeView, Point } from '../types.ts'
+import { getWheelPixels } from './frameGesture.ts'
+import type { WheelInput } from './frameGesture.ts'
+import { drawAdjustedImage } from './rendering.ts'
+
+/**
+ * The viewport magnifier. It draws the frames from their full-resolution
+ * sources with the same transform as the exports, so each frame pixel shows
+ * as a sharp block.
+ */
+
+export const MIN_LOUPE_ZOOM = 2
+export const MAX_LOUPE_ZOOM = 16
+
+// Wheel pixels that halve or double the zoom.
+const WHEEL_PIXELS_PER_OCTAVE = 300
+
+export interface LoupeLayer {
+  element: HTMLImageElement
+  adjustments: ImageAdjustments
+  /** Canvas filter showing the frame's tone, as in the viewport. */
+  filter?: string
+}
+
+export interface LoupeDrawOptions {
+  active: LoupeLayer
+  reference: LoupeLayer | null
+  /** Magnified point, in stage pixels from the frames' centre. */
+  centre: Point
+  /** Canvas pixels per frame pixel. */
+  zoom: number
+  view: LoupeView
+  referenceOpacity: number
+}
+
+export const clampLoupeZoom = (zoom: number) =>
+  Math.min(MAX_LOUPE_ZOOM, Math.max(MIN_LOUPE_ZOOM, zoom))
+
+/** The zoom after one wheel event; scrolling up zooms in. */
+export const getLoupeWheelZoom = (zoom: number, wheel: WheelInput) =>
+  clampLoupeZoom(zoom * 2 ** (-getWheelPixels(wheel) / WHEEL_PIXELS_PER_OCTAVE))
+
+export const drawLoupe = (
+  context: CanvasRenderingContext2D,
+  { active, reference, centre, zoom, view, referenceOpacity }: LoupeDrawOptions,
+) => {
+  const { width, height } = context.canvas
+  context.save()
+  context.fillStyle = '#000000'
+  context.fillRect(0, 0, width, height)
+  context.imageSmoothingEnabled = false
+  context.scale(zoom, zoom)
+  const area = { ...centre, width: width / zoom, height: height / zoom }
+  const draw = (layer: LoupeLayer, alpha: number) => {
+    context.globalAlpha = alpha
+    context.filter = layer.filter ?? 'none'
+    drawAdjustedImage(context, layer.element, layer.adjustments, area)
+  }
+
+  if (reference && view === 'difference') {
+    draw(reference, 1)
+    context.globalCompositeOperation = 'difference'
+    draw(active, 1)
+  } else {
+    draw(active, 1)
+    if (reference) draw(reference, referenceOpacity)
+  }
+  context.restore()
+}
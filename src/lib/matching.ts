@@ -0,0 +1,170 @@
+export interface LuminanceImage {
+  width: number
+  height: number
+  data: Float32Array
+}
+
+export interface MatchResult {
+  x: number
+  y: number
+  score: number
+}
+
+const MIN_PYRAMID_TEMPLATE = 12
+const MAX_PYRAMID_LEVELS = 4
+const REFINE_RADIUS = 2
+
+const downsample = (image: LuminanceImage): LuminanceImage => {
+  const width = Math.floor(image.width / 2)
+  const height = Math.floor(image.height / 2)
+  const data = new Float32Array(width * height)
+  for (let y = 0; y < height; y += 1) {
+    const top = y * 2 * image.width
+    const bottom = top + image.width
+    for (let x = 0; x < width; x += 1) {
+      const left = x * 2
+      data[y * width + x] =
+        (image.data[top + left] +
+          image.data[top + left + 1] +
+          image.data[bottom + left] +
+          image.data[bottom + left + 1]) /
+        4
+    }
+  }
+  return { width, height, data }
+}
+
+const buildPyramid = (image: LuminanceImage, levels: number) => {
+  const pyramid = [image]
+  for (let level = 1; level < levels; level += 1) {
+    pyramid.push(downsample(pyramid[level - 1]))
+  }
+  return pyramid
+}
+
+/**
+ * Normalized cross-correlation of the template placed with its top-left
+ * corner at (u, v) in the search image. Returns a value in [-1, 1].
+ */
+const correlateAt = (
+  template: LuminanceImage,
+  templateMean: number,
+  templateNorm: number,
+  search: LuminanceImage,
+  u: number,
+  v: number,
+) => {
+  const count = template.width * template.height
+  let sum = 0
+  let sumSquares = 0
+  let cross = 0
+  for (let y = 0; y < template.height; y += 1) {
+    const searchRow = (v + y) * search.width + u
+    const templateRow = y * template.width
+    for (let x = 0; x < template.width; x += 1) {
+      const value = search.data[searchRow + x]
+      sum += value
+      sumSquares += value * value
+      cross += (template.data[templateRow + x] - templateMean) * value
+    }
+  }
+  const variance = sumSquares - (sum * sum) / count
+  if (variance <= 1e-6 || templateNorm <= 1e-6) return 0
+  return cross / (templateNorm * Math.sqrt(variance))
+}
+
+const templateStats = (template: LuminanceImage) => {
+  const count = template.width * template.height
+  let sum = 0
+  for (let index = 0; index < count; index += 1) {
+    sum += template.data[index]
+  }
+  const mean = sum / count
+  let squares = 0
+  for (let index = 0; index < count; index += 1) {
+    const delta = template.data[index] - mean
+    squares += delta * delta
+  }
+  return { mean, norm: Math.sqrt(squares) }
+}
+
+const searchWindow = (
+  template: LuminanceImage,
+  search: LuminanceImage,
+  minU: number,
+  maxU: number,
+  minV: number,
+  maxV: number,
+): MatchResult => {
+  const { mean, norm } = templateStats(template)
+  const best: MatchResult = { x: minU, y: minV, score: -Infinity }
+  const uStart = Math.max(0, minU)
+  const vStart = Math.max(0, minV)
+  const uEnd = Math.min(search.width - template.width, maxU)
+  const vEnd = Math.min(search.height - template.height, maxV)
+  for (let v = vStart; v <= vEnd; v += 1) {
+    for (let u = uStart; u <= uEnd; u += 1) {
+      const score = correlateAt(template, mean, norm, search, u, v)
+      if (score > best.score) {
+        best.x = u
+        best.y = v
+        best.score = score
+      }
+    }
+  }
+  return best
+}
+
+/**
+ * Finds the top-left position of `template` inside `search` using a
+ * coarse-to-fine normalized cross-correlation search. The coarsest level is
+ * searched exhaustively; each finer level only refines around the previous
+ * estimate.
+ */
+export const findBestMatch = (
+  template: LuminanceImage,
+  search: LuminanceImage,
+): MatchResult => {
+  if (template.width > search.width || template.height > search.height) {
+    throw new Error('Search area must be larger than the template.')
+  }
+
+  let levels = 1
+  while (
+    levels < MAX_PYRAMID_LEVELS &&
+    Math.min(template.width, template.height) >> levels >= MIN_PYRAMID_TEMPLATE
+  ) {
+    levels += 1
+  }
+
+  const templates = buildPyramid(template, levels)
+  const searches = buildPyramid(search, levels)
+
+  const coarsest = levels - 1
+  let result = searchWindow(
+    templates[coarsest],
+    searches[coarsest],
+    0,
+    Number.POSITIVE_INFINITY,
+    0,
+    Number.POSITIVE_INFINITY,
+  )
+
+  for (let level = coarsest - 1; level >= 0; level -= 1) {
+    const centerU = result.x * 2
+    const centerV = result.y * 2
+    result = searchWindow(
+      templates[level],
+      searches[level],
+      centerU - REFINE_RADIUS,
+      centerU + REFINE_RADIUS,
+      centerV - REFINE_RADIUS,
+      centerV + REFINE_RADIUS,
+    )
+  }
+
+  return {
+    ...result,
+    score: Number.isFinite(result.score) ? result.score : 0,
+  }
+}
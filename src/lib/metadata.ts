@@ -0,0 +1,23 @@
+import type { ImageMetadata } from '../types.ts'
+
+/** Short human-readable parts, e.g. camera, "35 mm" and the capture time. */
+export const describeMetadata = (
+  metadata: ImageMetadata,
+  formatDate: (capturedAt: string) => string = (capturedAt) =>
+    capturedAt.replace('T', ' '),
+): string[] => {
+  const parts: string[] = []
+  if (metadata.camera) parts.push(metadata.camera)
+  if (metadata.focalLength) {
+    parts.push(
+      metadata.focalLength35mm &&
+        metadata.focalLength35mm !== Math.round(metadata.focalLength)
+        ? `${metadata.focalLength} mm (${metadata.focalLength35mm} mm equiv.)`
+        : `${metadata.focalLength} mm`,
+    )
+  } else if (metadata.focalLength35mm) {
+    parts.push(`${metadata.focalLength35mm} mm equiv.`)
+  }
+  if (metadata.capturedAt) parts.push(formatDate(metadata.capturedAt))
+  return parts
+}
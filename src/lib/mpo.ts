@@ -0,0 +1,88 @@
+import { createTiffReader, findJpegSegment, readIfd } from './tiff.ts'
+
+/**
+ * Splits Multi-Picture Object (.mpo) files from stereo cameras into their
+ * individual JPEG views, following the CIPA DC-007 MP Format.
+ */
+
+const MPF_IDENTIFIER = [0x4d, 0x50, 0x46, 0x00] // "MPF\0"
+const TAG_MP_ENTRY = 0xb002
+const TAG_INDIVIDUAL_NUMBER = 0xb101
+// MP type codes for multi-view images (disparity and multi-angle).
+const MULTI_VIEW_TYPES = new Set([0x020002, 0x020003])
+
+const findMpfHeader = (bytes: Uint8Array, start: number) =>
+  findJpegSegment(bytes, start, 0xe2, MPF_IDENTIFIER)
+
+/** Reads the MP Individual Image Number of a view, if it declares one. */
+const readIndividualNumber = (bytes: Uint8Array): number | null => {
+  const header = findMpfHeader(bytes, 0)
+  if (header === null) return null
+  const reader = createTiffReader(bytes, header)
+  if (!reader) return null
+  let offset = reader.view.getUint32(header + 4, reader.littleEndian)
+  // The first view keeps its attributes in the IFD after the MP Index IFD.
+  for (let depth = 0; depth < 2 && offset; depth += 1) {
+    const { entries, next } = readIfd(reader, offset)
+    const entry = entries.get(TAG_INDIVIDUAL_NUMBER)
+    if (entry) {
+      return reader.view.getUint32(entry.valueOffset, reader.littleEndian)
+    }
+    offset = next
+  }
+  return null
+}
+
+/**
+ * Returns the individual JPEG views of an MPO file, ordered left to right.
+ * Returns an empty array when the data is not a multi-view MPO.
+ */
+export const splitMpo = (buffer: ArrayBuffer): Uint8Array[] => {
+  const bytes = new Uint8Array(buffer)
+  const header = findMpfHeader(bytes, 0)
+  if (header === null) return []
+  const reader = createTiffReader(bytes, header)
+  if (!reader) return []
+
+  const indexOffset = reader.view.getUint32(header + 4, reader.littleEndian)
+  const { entries } = readIfd(reader, indexOffset)
+  const mpEntry = entries.get(TAG_MP_ENTRY)
+  if (!mpEntry) return []
+
+  const imageCount = Math.floor(mpEntry.count / 16)
+  const entryStart =
+    header + reader.view.getUint32(mpEntry.valueOffset, reader.littleEndian)
+
+  const views: Array<{ bytes: Uint8Array; order: number }> = []
+  for (let index = 0; index < imageCount; index += 1) {
+    const position = entryStart + index * 16
+    if (position + 16 > bytes.length) break
+    const attributes = reader.view.getUint32(position, reader.littleEndian)
+    const size = reader.view.getUint32(position + 4, reader.littleEndian)
+    const dataOffset = reader.view.getUint32(position + 8, reader.littleEndian)
+    if (!MULTI_VIEW_TYPES.has(attributes & 0xffffff)) continue
+
+    // Offsets are relative to the MP header; the first image starts at 0.
+    const start = index === 0 ? 0 : header + dataOffset
+    const end = start + size
+    if (
+      end > bytes.length ||
+      bytes[start] !== 0xff ||
+      bytes[start + 1] !== 0xd8
+    ) {
+      continue
+    }
+    const view = bytes.subarray(start, end)
+    views.push({ bytes: view, order: readIndividualNumber(view) ?? index + 1 })
+  }
+
+  if (views.length < 2) return []
+  return views
+    .sort((first, second) => first.order - second.order)
+    .map((view) => view.bytes.slice())
+}
+
+export const isPossibleMpo = (file: File) =>
+  /\.mpo$/i.test(file.name) ||
+  file.type === 'image/mpo' ||
+  file.type === 'image/jpeg'
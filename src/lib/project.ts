@@ -0,0 +1,328 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import type { Zippable } from 'fflate'
+import type {
+  CropRect,
+  EdgeFillSettings,
+  ExportFormat,
+  ExportQuality,
+  GifDithering,
+  ImageAdjustments,
+  ImageMetadata,
+  InbetweenSettings,
+  OutputSizeSettings,
+  PlaybackSequence,
+  PngCompression,
+  Point,
+  StereoExportSettings,
+} from '../types.ts'
+
+export const PROJECT_FILE_EXTENSION = '.wiggle'
+export const PROJECT_SCHEMA_VERSION = 12
+
+const MANIFEST_PATH = 'project.json'
+const PROJECT_APP_ID = 'wigglegram-studio'
+
+export interface ProjectFrameManifest {
+  id: string
+  label: string
+  fileName?: string
+  /** Path of the original image bytes inside the archive. */
+  path?: string
+  mimeType?: string
+  naturalWidth?: number
+  naturalHeight?: number
+  metadata?: ImageMetadata
+  adjustments: ImageAdjustments
+  /** Alignment points in frame pixels; see LoadedImage. */
+  controlPoints?: Point[]
+}
+
+export interface ProjectManifest {
+  version: typeof PROJECT_SCHEMA_VERSION
+  app: typeof PROJECT_APP_ID
+  savedAt: string
+  frames: ProjectFrameManifest[]
+  activeFrameId: string | null
+  pinnedFrameId: string | null
+  crop: CropRect
+  crosshair: Point
+  wiggleSpeed: number
+  sequence: PlaybackSequence
+  /** Generated frames played between the sequence steps until baked. */
+  inbetweens: InbetweenSettings
+  /** What fills the parts of the crop a frame doesn't cover. */
+  edgeFill: EdgeFillSettings
+  exportSettings: {
+    format: ExportFormat
+    gifQuality: ExportQuality
+    videoQuality: ExportQuality
+    gifDithering: GifDithering
+    apngCompression: PngCompression
+    webpQuality: ExportQuality
+    webpLossless: boolean
+    /** Times the animation plays; 0 loops forever. */
+    loopCount: number
+    outputSize: OutputSizeSettings
+    /** Embed the frames' capture details in exports that support it. */
+    keepMetadata: boolean
+    /** Anaglyph and stereo card downloads. */
+    stereo: StereoExportSettings
+  }
+}
+
+export interface ProjectFrame
+  extends Omit<ProjectFrameManifest, 'path' | 'mimeType'> {
+  blob?: Blob
+}
+
+export interface ProjectSnapshot
+  extends Omit<ProjectManifest, 'version' | 'app' | 'savedAt' | 'frames'> {
+  frames: ProjectFrame[]
+}
+
+type ManifestMigration = (manifest: Record<string, unknown>) => Record<
+  string,
+  unknown
+>
+
+/**
+ * Upgrades a manifest saved with schema version `key` to `key + 1`. Add an
+ * entry here whenever PROJECT_SCHEMA_VERSION is bumped.
+ */
+const MIGRATIONS: Record<number, ManifestMigration> = {
+  // v1 crops were always centred on the frames.
+  1: (manifest) => ({
+    ...manifest,
+    crop: { ...(manifest.crop as object), x: 0, y: 0 },
+  }),
+  // v2 GIFs were exported without dithering and looped forever.
+  2: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      gifDithering: 'none',
+      loopCount: 0,
+    },
+  }),
+  3: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      apngCompression: 'balanced',
+    },
+  }),
+  4: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      webpQuality: 'medium',
+      webpLossless: false,
+    },
+  }),
+  // Earlier versions always exported at the crop size.
+  5: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      outputSize: {
+        mode: 'scale',
+        scale: 1,
+        longEdge: 1080,
+        width: 1080,
+        height: 1080,
+        lockAspect: true,
+        sharpen: false,
+      },
+    },
+  }),
+  // Frames gained tone settings; older frames were left untouched.
+  6: (manifest) => ({
+    ...manifest,
+    frames: (manifest.frames as Record<string, unknown>[]).map((frame) => ({
+      ...frame,
+      adjustments: {
+        ...(frame.adjustments as object),
+        exposure: 0,
+        contrast: 0,
+        temperature: 0,
+        tint: 0,
+        saturation: 0,
+      },
+    })),
+  }),
+  // Frames without capture metadata need no change; exports stripped it.
+  7: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      keepMetadata: false,
+    },
+  }),
+  8: (manifest) => ({
+    ...manifest,
+    inbetweens: { count: 0, mode: 'flow' },
+  }),
+  9: (manifest) => ({
+    ...manifest,
+    exportSettings: {
+      ...(manifest.exportSettings as object),
+      stereo: { layout: 'anaglyph-dubois', format: 'png' },
+    },
+  }),
+  // Uncovered edges used to stay transparent.
+  10: (manifest) => ({
+    ...manifest,
+    edgeFill: { mode: 'none', color: '#000000' },
+  }),
+  // Frames without control points need no change.
+  11: (manifest) => manifest,
+}
+
+export const migrateManifest = (raw: unknown): ProjectManifest => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Project manifest is missing or malformed.')
+  }
+  let manifest = raw as Record<string, unknown>
+  if (manifest.app !== PROJECT_APP_ID) {
+    throw new Error('This file is not a wigglegram project.')
+  }
+  let version = Number(manifest.version)
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('Project manifest has an invalid version.')
+  }
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(
+      'This project was saved by a newer version of the app. Please update and try again.',
+    )
+  }
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration available for project version ${version}.`)
+    }
+    manifest = migrate(manifest)
+    version += 1
+    manifest.version = version
+  }
+  return manifest as unknown as ProjectManifest
+}
+
+const EXTENSION_BY_TYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+}
+
+const getFrameExtension = (frame: ProjectFrame) => {
+  const fromName = frame.fileName?.split('.').pop()
+  if (fromName && fromName !== frame.fileName) return fromName.toLowerCase()
+  return EXTENSION_BY_TYPE[frame.blob?.type ?? ''] ?? 'bin'
+}
+
+/**
+ * Builds the manifest for a snapshot. `getPath` names where each frame's
+ * image bytes are kept; frames without a blob get no path.
+ */
+export const snapshotToManifest = (
+  snapshot: ProjectSnapshot,
+  getPath: (frame: ProjectFrame, index: number) => string,
+): ProjectManifest => ({
+  ...snapshot,
+  version: PROJECT_SCHEMA_VERSION,
+  app: PROJECT_APP_ID,
+  savedAt: new Date().toISOString(),
+  frames: snapshot.frames.map(({ blob, ...frame }, index) =>
+    blob
+      ? {
+          ...frame,
+          path: getPath({ ...frame, blob }, index),
+          mimeType: blob.type || undefined,
+        }
+      : frame,
+  ),
+})
+
+/**
+ * Turns a migrated manifest back into a snapshot, looking up each frame's
+ * image bytes by path.
+ */
+export const manifestToSnapshot = (
+  { frames, ...manifest }: ProjectManifest,
+  getBlob: (path: string, mimeType: string) => Blob | undefined,
+): ProjectSnapshot => ({
+  frames: frames.map(({ path, mimeType, ...frame }): ProjectFrame => {
+    if (!path) return frame
+    const blob = getBlob(path, mimeType ?? '')
+    if (!blob) {
+      throw new Error(`Project is missing the image for ${frame.label}.`)
+    }
+    return { ...frame, blob }
+  }),
+  activeFrameId: manifest.activeFrameId,
+  pinnedFrameId: manifest.pinnedFrameId,
+  crop: manifest.crop,
+  crosshair: manifest.crosshair,
+  wiggleSpeed: manifest.wiggleSpeed,
+  sequence: manifest.sequence,
+  inbetweens: manifest.inbetweens,
+  edgeFill: manifest.edgeFill,
+  exportSettings: manifest.exportSettings,
+})
+
+/**
+ * Packs the session into a zip archive: a versioned JSON manifest plus the
+ * original bytes of every loaded image.
+ */
+export const exportProject = async (
+  snapshot: ProjectSnapshot,
+): Promise<Blob> => {
+  const files: Zippable = {}
+  const manifest = snapshotToManifest(
+    snapshot,
+    (frame, index) =>
+      `frames/${index.toString().padStart(3, '0')}.${getFrameExtension(frame)}`,
+  )
+
+  for (let index = 0; index < snapshot.frames.length; index += 1) {
+    const { blob } = snapshot.frames[index]
+    const { path } = manifest.frames[index]
+    if (blob && path) {
+      // Images are already compressed, so store them as-is.
+      files[path] = [new Uint8Array(await blob.arrayBuffer()), { level: 0 }]
+    }
+  }
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2))
+
+  const archive = zipSync(files)
+  return new Blob([archive.slice().buffer], { type: 'application/zip' })
+}
+
+export const importProject = async (file: Blob): Promise<ProjectSnapshot> => {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()))
+  } catch {
+    throw new Error('Unable to read project file.')
+  }
+
+  const manifestBytes = entries[MANIFEST_PATH]
+  if (!manifestBytes) {
+    throw new Error('Project file has no manifest.')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(strFromU8(manifestBytes))
+  } catch {
+    throw new Error('Project manifest is not valid JSON.')
+  }
+
+  return manifestToSnapshot(migrateManifest(parsed), (path, mimeType) => {
+    const bytes = entries[path]
+    return bytes
+      ? new Blob([bytes.slice().buffer], { type: mimeType })
+      : undefined
+  })
+}
@@ -1,19 +1,153 @@
-import gifshot from 'gifshot'
-import { FFmpeg } from '@ffmpeg/ffmpeg'
 import type {
+  CropRect,
   Dimensions,
+  EdgeFillMode,
+  ExportProgress,
   ExportQuality,
+  ExportStage,
   FrameRenderOptions,
+  GifDithering,
+  ImageAdjustments,
+  ImageMetadata,
+  InbetweenSettings,
   LoadedImage,
+  PlaybackStep,
+  PngCompression,
 } from '../types.ts'
+import { getFfmpeg, terminateFfmpeg } from './ffmpeg.ts'
+import { applyToneMatrix, getToneMatrix, isNeutralTone } from './tone.ts'
+import { describeMetadata } from './metadata.ts'
+import { getInbetweenKey, getInbetweenPairs } from './sequence.ts'
+import {
+  resampleCanvas,
+  resolveOutputSize,
+  sharpenCanvas,
+} from './resample.ts'
+import type {
+  ApngWorkerRequest,
+  ApngWorkerResponse,
+} from './apng.worker.ts'
+import type { GifWorkerRequest, GifWorkerResponse } from './gif.worker.ts'
+import type {
+  InbetweenWorkerRequest,
+  InbetweenWorkerResponse,
+} from './inbetween.worker.ts'
+
+export interface ExportTaskOptions {
+  /** Aborting stops the work and rejects with the signal's reason. */
+  signal?: AbortSignal
+  onProgress?: (progress: ExportProgress) => void
+}
+
+// Share of the overall progress each stage ends at. Rendering frames is
+// quick next to encoding them; in-betweens, when there are any, take longer
+// than either.
+const STAGE_ENDS: Record<ExportStage, number> = {
+  rendering: 0.2,
+  inbetweens: 0.2,
+  encoding: 1,
+}
+const STAGE_ENDS_WITH_INBETWEENS: Record<ExportStage, number> = {
+  rendering: 0.1,
+  inbetweens: 0.5,
+  encoding: 1,
+}
+const STAGE_ORDER: ExportStage[] = ['rendering', 'inbetweens', 'encoding']
 
-interface RenderOptions {
-  intervalMs: number
+/**
+ * Combines the stage progress into a single ratio for the whole export.
+ * `withInbetweens` says whether the export generates in-between frames.
+ */
+export const getExportRatio = (
+  { stage, ratio }: ExportProgress,
+  withInbetweens = false,
+) => {
+  const ends = withInbetweens ? STAGE_ENDS_WITH_INBETWEENS : STAGE_ENDS
+  const previous = STAGE_ORDER[STAGE_ORDER.indexOf(stage) - 1]
+  const start = previous ? ends[previous] : 0
+  return start + ratio * (ends[stage] - start)
+}
+
+interface RenderOptions extends ExportTaskOptions {
+  /** Display time of each frame, in the same order as the frames. */
+  durations: number[]
   size: Dimensions
   quality: ExportQuality
+  /** Capture details to embed; omitted, the output carries none. */
+  metadata?: ImageMetadata
+}
+
+interface GifRenderOptions extends RenderOptions {
+  dithering: GifDithering
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number
+}
+
+// ffmpeg's animated WebP muxer cannot store metadata.
+interface WebpRenderOptions extends Omit<RenderOptions, 'metadata'> {
+  lossless: boolean
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number
+}
+
+interface ApngRenderOptions extends Omit<RenderOptions, 'quality'> {
+  compression: PngCompression
+  /** Times the animation plays; 0 loops forever. */
+  loopCount: number
+}
+
+/** Capture details as one line of printable ASCII. */
+const formatMetadataComment = (metadata: ImageMetadata) =>
+  describeMetadata(metadata)
+    .join('; ')
+    .replace(/[^\x20-\x7e]/g, '?')
+
+// Hundredths of a second, the finest delay GIF and WebP players honour.
+const TIMEBASE_STEP_MS = 10
+
+const greatestCommonDivisor = (a: number, b: number): number =>
+  b === 0 ? a : greatestCommonDivisor(b, a % b)
+
+const CONCAT_LIST_NAME = 'frames.ffconcat'
+
+/**
+ * Lists the sequence for ffmpeg's concat demuxer. Each distinct frame is
+ * written once and shown for its step's duration, rounded to the timebase;
+ * the encoders then repeat frames at the largest rate that divides every
+ * duration, so long holds don't become thousands of image files.
+ */
+const createConcatList = (frames: string[], durations: number[]) => {
+  if (frames.length !== durations.length) {
+    throw new Error('Every frame needs a duration.')
+  }
+  const ticks = durations.map((duration) =>
+    Math.max(1, Math.round(duration / TIMEBASE_STEP_MS)),
+  )
+  const timebase = ticks.reduce(greatestCommonDivisor, 0)
+  const files = new Map<string, string>()
+  const entries = frames.map((frame, index) => {
+    let fileName = files.get(frame)
+    if (!fileName) {
+      fileName = `frame_${files.size.toString().padStart(3, '0')}.png`
+      files.set(frame, fileName)
+    }
+    const seconds = (ticks[index] * TIMEBASE_STEP_MS) / 1000
+    return `file '${fileName}'\nduration ${seconds}`
+  })
+  // The demuxer ignores the last entry's duration unless its file is
+  // listed once more; encodeWithFfmpeg cuts that extra frame off.
+  const lastFile = files.get(frames[frames.length - 1])
+  const list = ['ffconcat version 1.0', ...entries, `file '${lastFile}'`]
+  return {
+    /** File name for each distinct frame's data URL. */
+    files,
+    list: `${list.join('\n')}\n`,
+    intervalMs: timebase * TIMEBASE_STEP_MS,
+    totalMs: ticks.reduce((sum, tick) => sum + tick, 0) * TIMEBASE_STEP_MS,
+  }
 }
 
-const ensureImageElement = (src: string): Promise<HTMLImageElement> =>
+export const ensureImageElement = (src: string): Promise<HTMLImageElement> =>
   new Promise((resolve, reject) => {
     const image = new Image()
     image.onload = () => resolve(image)
@@ -21,9 +155,149 @@ const ensureImageElement = (src: string): Promise<HTMLImageElement> =>
     image.src = src
   })
 
+/**
+ * Draws an image onto the context in crop space, centred on the frames'
+ * shared centre (offset from the crop by its position) and transformed by
+ * the frame adjustments.
+ */
+export const drawAdjustedImage = (
+  context: CanvasRenderingContext2D,
+  element: HTMLImageElement,
+  adjustments: ImageAdjustments,
+  crop: CropRect,
+) => {
+  context.save()
+  context.translate(
+    crop.width / 2 - crop.x + adjustments.offsetX,
+    crop.height / 2 - crop.y + adjustments.offsetY,
+  )
+  context.rotate((adjustments.rotation * Math.PI) / 180)
+  context.scale(adjustments.scale, adjustments.scale)
+  context.drawImage(
+    element,
+    -element.naturalWidth / 2,
+    -element.naturalHeight / 2,
+  )
+  context.restore()
+}
+
+// Blurred fills soften over this share of the crop's long edge.
+const EDGE_BLUR_SHARE = 0.03
+
+/**
+ * Stretches the frame's outermost pixels outwards by `reach`, in the
+ * frame's own coordinates. Each strip overlaps the frame by a pixel so no
+ * seam shows once the frame is drawn on top.
+ */
+const drawExtendedEdges = (
+  context: CanvasRenderingContext2D,
+  element: HTMLImageElement,
+  reach: number,
+) => {
+  const width = element.naturalWidth
+  const height = element.naturalHeight
+  const left = -width / 2
+  const top = -height / 2
+  const far = reach + 1
+  const pieces: number[][] = [
+    [0, 0, width, 1, left, top - reach, width, far],
+    [0, height - 1, width, 1, left, -top - 1, width, far],
+    [0, 0, 1, height, left - reach, top, far, height],
+    [width - 1, 0, 1, height, -left - 1, top, far, height],
+    [0, 0, 1, 1, left - reach, top - reach, far, far],
+    [width - 1, 0, 1, 1, -left - 1, top - reach, far, far],
+    [0, height - 1, 1, 1, left - reach, -top - 1, far, far],
+    [width - 1, height - 1, 1, 1, -left - 1, -top - 1, far, far],
+  ]
+  for (const [sx, sy, sw, sh, dx, dy, dw, dh] of pieces) {
+    context.drawImage(element, sx, sy, sw, sh, dx, dy, dw, dh)
+  }
+}
+
+/** Tiles flipped copies of the frame around it, out to `reach`. */
+const drawMirroredCopies = (
+  context: CanvasRenderingContext2D,
+  element: HTMLImageElement,
+  reach: number,
+) => {
+  const width = element.naturalWidth
+  const height = element.naturalHeight
+  const columns = Math.ceil(reach / width)
+  const rows = Math.ceil(reach / height)
+  for (let row = -rows; row <= rows; row += 1) {
+    for (let column = -columns; column <= columns; column += 1) {
+      if (!row && !column) continue
+      context.save()
+      context.translate(column * width, row * height)
+      // Odd copies are flipped, so each one mirrors its neighbour's edge.
+      context.scale(column % 2 ? -1 : 1, row % 2 ? -1 : 1)
+      context.drawImage(element, -width / 2, -height / 2)
+      context.restore()
+    }
+  }
+}
+
+/**
+ * Draws what fills the crop around a frame for the fills taken from the
+ * frame itself; the frame is drawn on top afterwards. `resolution` is the
+ * canvas pixels per crop pixel, for previews drawn smaller than the crop.
+ */
+export const drawEdgeFill = (
+  context: CanvasRenderingContext2D,
+  element: HTMLImageElement,
+  adjustments: ImageAdjustments,
+  crop: CropRect,
+  mode: Exclude<EdgeFillMode, 'none' | 'solid'>,
+  resolution = 1,
+) => {
+  // Far enough, in frame pixels, to reach every corner of the crop.
+  const reach =
+    (Math.hypot(crop.x - adjustments.offsetX, crop.y - adjustments.offsetY) +
+      Math.hypot(crop.width, crop.height) / 2) /
+    Math.max(adjustments.scale, 0.01)
+  const drawFill = (target: CanvasRenderingContext2D) => {
+    target.save()
+    target.scale(resolution, resolution)
+    target.translate(
+      crop.width / 2 - crop.x + adjustments.offsetX,
+      crop.height / 2 - crop.y + adjustments.offsetY,
+    )
+    target.rotate((adjustments.rotation * Math.PI) / 180)
+    target.scale(adjustments.scale, adjustments.scale)
+    if (mode === 'mirror') {
+      drawMirroredCopies(target, element, reach)
+    } else {
+      drawExtendedEdges(target, element, reach)
+    }
+    target.restore()
+  }
+
+  if (mode !== 'blur') {
+    drawFill(context)
+    return
+  }
+  // Blur a padded copy, so the crop's edges don't fade to transparent.
+  const radius = Math.max(
+    2,
+    Math.max(crop.width, crop.height) * EDGE_BLUR_SHARE * resolution,
+  )
+  const padding = Math.ceil(radius * 3)
+  const layer = document.createElement('canvas')
+  layer.width = context.canvas.width + padding * 2
+  layer.height = context.canvas.height + padding * 2
+  const layerContext = layer.getContext('2d')
+  if (!layerContext) return
+  layerContext.translate(padding, padding)
+  drawFill(layerContext)
+  context.save()
+  context.filter = `blur(${radius}px)`
+  context.drawImage(layer, -padding, -padding)
+  context.restore()
+}
+
 const renderFrame = async (
   image: LoadedImage,
-  { crop }: FrameRenderOptions,
+  { crop, output, fill }: FrameRenderOptions,
 ): Promise<string> => {
   if (!image.objectUrl) {
     throw new Error('All frames must be loaded before rendering.')
@@ -40,47 +314,184 @@ const renderFrame = async (
   }
 
   context.clearRect(0, 0, crop.width, crop.height)
-  context.save()
-  context.translate(
-    crop.width / 2 + image.adjustments.offsetX,
-    crop.height / 2 + image.adjustments.offsetY,
-  )
-  context.rotate((image.adjustments.rotation * Math.PI) / 180)
-  context.scale(image.adjustments.scale, image.adjustments.scale)
-  context.drawImage(
-    element,
-    -element.naturalWidth / 2,
-    -element.naturalHeight / 2,
+  if (fill && fill.mode !== 'none' && fill.mode !== 'solid') {
+    drawEdgeFill(context, element, image.adjustments, crop, fill.mode)
+  }
+  drawAdjustedImage(context, element, image.adjustments, crop)
+  if (!isNeutralTone(image.adjustments)) {
+    const pixels = context.getImageData(0, 0, crop.width, crop.height)
+    applyToneMatrix(pixels.data, getToneMatrix(image.adjustments))
+    context.putImageData(pixels, 0, 0)
+  }
+  // A solid fill goes behind the toned frame, so it keeps its colour.
+  if (fill?.mode === 'solid') {
+    context.save()
+    context.globalCompositeOperation = 'destination-over'
+    context.fillStyle = fill.color
+    context.fillRect(0, 0, crop.width, crop.height)
+    context.restore()
+  }
+
+  if (!output) {
+    return canvas.toDataURL('image/png')
+  }
+  const resized = resampleCanvas(canvas, resolveOutputSize(crop, output))
+  if (output.sharpen) {
+    sharpenCanvas(resized)
+  }
+  return resized.toDataURL('image/png')
+}
+
+/**
+ * Renders every frame through the crop and edge fill, then scales it to the
+ * output size when one is given.
+ */
+export const generateFrames = async (
+  images: LoadedImage[],
+  options: FrameRenderOptions,
+  { signal, onProgress }: ExportTaskOptions = {},
+) => {
+  let completed = 0
+  const total = images.length
+  onProgress?.({ stage: 'rendering', ratio: 0, completed, total })
+  return Promise.all(
+    images.map(async (image) => {
+      signal?.throwIfAborted()
+      const frame = await renderFrame(image, options)
+      signal?.throwIfAborted()
+      completed += 1
+      onProgress?.({
+        stage: 'rendering',
+        ratio: completed / total,
+        completed,
+        total,
+      })
+      return frame
+    }),
   )
-  context.restore()
+}
 
+/** Runs one in-between job on a worker of its own. */
+const runInbetweenWorker = (
+  request: InbetweenWorkerRequest,
+  signal?: AbortSignal,
+) =>
+  new Promise<Uint8ClampedArray<ArrayBuffer>[]>((resolve, reject) => {
+    const worker = new Worker(
+      new URL('./inbetween.worker.ts', import.meta.url),
+      { type: 'module' },
+    )
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleAbort = () => {
+      finish()
+      reject(signal?.reason)
+    }
+    if (signal?.aborted) {
+      handleAbort()
+      return
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (event: MessageEvent<InbetweenWorkerResponse>) => {
+      finish()
+      if ('error' in event.data) {
+        reject(new Error(event.data.error))
+      } else {
+        resolve(event.data.frames)
+      }
+    }
+    worker.onerror = () => {
+      finish()
+      reject(new Error('Generating in-between frames failed.'))
+    }
+    worker.postMessage(request, [request.first.buffer, request.second.buffer])
+  })
+
+const pixelsToDataUrl = (
+  pixels: Uint8ClampedArray<ArrayBuffer>,
+  { width, height }: Dimensions,
+) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Unable to render frame.')
+  }
+  context.putImageData(new ImageData(pixels, width, height), 0, 0)
   return canvas.toDataURL('image/png')
 }
 
-export const generateFrames = async (
+/**
+ * Generates the in-between frames the steps need from frames rendered by
+ * generateFrames at `size`, one pair at a time. Returns PNG data URLs keyed
+ * by getInbetweenKey.
+ */
+export const generateInbetweenFrames = async (
   images: LoadedImage[],
-  crop: Dimensions,
-) => Promise.all(images.map((image) => renderFrame(image, { crop })))
+  rendered: string[],
+  steps: PlaybackStep[],
+  { count, mode }: InbetweenSettings,
+  size: Dimensions,
+  { signal, onProgress }: ExportTaskOptions = {},
+) => {
+  const frameFor = (id: string) => {
+    const frame = rendered[images.findIndex((image) => image.id === id)]
+    if (frame === undefined) {
+      throw new Error('Sequence refers to a missing frame.')
+    }
+    return frame
+  }
+  const inbetweens = new Map<string, string[]>()
+  const pairs = getInbetweenPairs(steps)
+  const total = pairs.length
+  onProgress?.({ stage: 'inbetweens', ratio: 0, completed: 0, total })
+  for (const [index, [fromId, toId]] of pairs.entries()) {
+    signal?.throwIfAborted()
+    const [first, second] = await Promise.all([
+      readFramePixels(frameFor(fromId), size),
+      readFramePixels(frameFor(toId), size),
+    ])
+    const frames = await runInbetweenWorker(
+      { width: size.width, height: size.height, first, second, count, mode },
+      signal,
+    )
+    inbetweens.set(
+      getInbetweenKey(fromId, toId),
+      frames.map((pixels) => pixelsToDataUrl(pixels, size)),
+    )
+    onProgress?.({
+      stage: 'inbetweens',
+      ratio: (index + 1) / total,
+      completed: index + 1,
+      total,
+    })
+  }
+  return inbetweens
+}
 
 const GIF_QUALITY_SETTINGS: Record<
   ExportQuality,
-  { sampleInterval: number; gifQuality: number }
+  { maxColors: number; sampleInterval: number }
 > = {
   high: {
+    maxColors: 256,
     sampleInterval: 1,
-    gifQuality: 1,
   },
   medium: {
+    maxColors: 128,
     sampleInterval: 2,
-    gifQuality: 5,
   },
   low: {
+    maxColors: 64,
     sampleInterval: 4,
-    gifQuality: 10,
   },
 }
 
-const dataUrlToBlob = (dataUrl: string): Blob => {
+export const dataUrlToBlob = (dataUrl: string): Blob => {
   const [header, data] = dataUrl.split(',')
   if (!header || !data) {
     throw new Error('Invalid image data.')
@@ -101,43 +512,183 @@ const dataUrlToUint8Array = async (dataUrl: string): Promise<Uint8Array> => {
   return new Uint8Array(buffer)
 }
 
-export const makeGif = async (
-  frames: string[],
-  { intervalMs, size, quality }: RenderOptions,
-): Promise<Blob> =>
-  new Promise((resolve, reject) => {
-    const settings = GIF_QUALITY_SETTINGS[quality]
-    gifshot.createGIF(
-      {
-        images: frames,
-        gifWidth: size.width,
-        gifHeight: size.height,
-        interval: intervalMs / 1000,
-        numFrames: frames.length,
-        sampleInterval: settings.sampleInterval,
-        gifQuality: settings.gifQuality,
-        numWorkers: 4,
-      },
-      (result) => {
-        if (result.error || !result.image) {
-          reject(new Error('Unable to generate GIF.'))
-        } else {
-          try {
-            resolve(dataUrlToBlob(result.image))
-          } catch (conversionError) {
-            reject(
-              conversionError instanceof Error
-                ? conversionError
-                : new Error('Unable to process GIF output.'),
-            )
-          }
-        }
-      },
+export const readFramePixels = async (dataUrl: string, size: Dimensions) => {
+  const element = await ensureImageElement(dataUrl)
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Unable to read frame pixels.')
+  }
+  context.drawImage(element, 0, 0, size.width, size.height)
+  return context.getImageData(0, 0, size.width, size.height).data
+}
+
+/**
+ * Reads the distinct frames of a sequence once and maps every step to its
+ * frame, for encoders that store per-frame delays.
+ */
+const prepareFrameSteps = async (
+  sequenceFrames: string[],
+  durations: number[],
+  size: Dimensions,
+) => {
+  if (sequenceFrames.length !== durations.length) {
+    throw new Error('Every frame needs a duration.')
+  }
+  const distinctFrames = [...new Set(sequenceFrames)]
+  const frames = await Promise.all(
+    distinctFrames.map((frame) => readFramePixels(frame, size)),
+  )
+  const steps = sequenceFrames.map((frame, index) => ({
+    frame: distinctFrames.indexOf(frame),
+    delayMs: durations[index],
+  }))
+  return { frames, steps }
+}
+
+/**
+ * Posts one encode job to a worker and terminates it once it answers or
+ * the signal aborts.
+ */
+const runEncoderWorker = (
+  worker: Worker,
+  request: { frames: Uint8ClampedArray[] },
+  failureMessage: string,
+  { signal, onProgress }: ExportTaskOptions,
+) =>
+  new Promise<Uint8Array<ArrayBuffer>>((resolve, reject) => {
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleAbort = () => {
+      finish()
+      reject(signal?.reason)
+    }
+    if (signal?.aborted) {
+      handleAbort()
+      return
+    }
+    signal?.addEventListener('abort', handleAbort)
+
+    worker.onmessage = (
+      event: MessageEvent<GifWorkerResponse | ApngWorkerResponse>,
+    ) => {
+      if ('progress' in event.data) {
+        onProgress?.({
+          stage: 'encoding',
+          ratio: event.data.progress,
+          bytesWritten: event.data.bytesWritten,
+        })
+        return
+      }
+      finish()
+      if ('error' in event.data) {
+        reject(new Error(event.data.error))
+      } else {
+        resolve(event.data.bytes)
+      }
+    }
+    worker.onerror = () => {
+      finish()
+      reject(new Error(failureMessage))
+    }
+    onProgress?.({ stage: 'encoding', ratio: 0 })
+    worker.postMessage(
+      request,
+      request.frames.map((frame) => frame.buffer),
     )
   })
 
-let ffmpegInstance: FFmpeg | null = null
-let ffmpegLoadingPromise: Promise<void> | null = null
+/**
+ * Encodes the sequence as a GIF with one palette shared by all frames.
+ * GIF stores a delay per frame, so durations are kept as they are.
+ */
+export const makeGif = async (
+  sequenceFrames: string[],
+  {
+    durations,
+    size,
+    quality,
+    dithering,
+    loopCount,
+    metadata,
+    ...task
+  }: GifRenderOptions,
+): Promise<Blob> => {
+  const { frames, steps } = await prepareFrameSteps(
+    sequenceFrames,
+    durations,
+    size,
+  )
+  const request: GifWorkerRequest = {
+    width: size.width,
+    height: size.height,
+    frames,
+    steps,
+    loopCount,
+    dithering,
+    ...GIF_QUALITY_SETTINGS[quality],
+    comment: metadata ? formatMetadataComment(metadata) : undefined,
+  }
+  const bytes = await runEncoderWorker(
+    new Worker(new URL('./gif.worker.ts', import.meta.url), {
+      type: 'module',
+    }),
+    request,
+    'GIF encoder failed.',
+    task,
+  )
+  return new Blob([bytes], { type: 'image/gif' })
+}
+
+// Keywords from the PNG specification's predefined set.
+const getPngText = (metadata: ImageMetadata) => {
+  const text: Record<string, string> = {}
+  if (metadata.capturedAt) text['Creation Time'] = metadata.capturedAt
+  if (metadata.camera) text.Source = metadata.camera
+  text.Comment = formatMetadataComment(metadata)
+  return text
+}
+
+/** Encodes the sequence as a full-colour APNG that keeps transparency. */
+export const makeApng = async (
+  sequenceFrames: string[],
+  {
+    durations,
+    size,
+    compression,
+    loopCount,
+    metadata,
+    ...task
+  }: ApngRenderOptions,
+): Promise<Blob> => {
+  const { frames, steps } = await prepareFrameSteps(
+    sequenceFrames,
+    durations,
+    size,
+  )
+  const request: ApngWorkerRequest = {
+    width: size.width,
+    height: size.height,
+    frames,
+    steps,
+    loopCount,
+    compression,
+    text: metadata ? getPngText(metadata) : undefined,
+  }
+  const bytes = await runEncoderWorker(
+    new Worker(new URL('./apng.worker.ts', import.meta.url), {
+      type: 'module',
+    }),
+    request,
+    'APNG encoder failed.',
+    task,
+  )
+  return new Blob([bytes], { type: 'image/apng' })
+}
 
 const VIDEO_QUALITY_SETTINGS: Record<
   ExportQuality,
@@ -157,93 +708,259 @@ const VIDEO_QUALITY_SETTINGS: Record<
   },
 }
 
-const getFfmpeg = async () => {
-  if (!ffmpegInstance) {
-    ffmpegInstance = new FFmpeg()
-  }
-
-  if (!ffmpegInstance.loaded) {
-    if (!ffmpegLoadingPromise) {
-      ffmpegLoadingPromise = ffmpegInstance
-        .load()
-        .then(() => undefined)
-        .finally(() => {
-          ffmpegLoadingPromise = null
-        })
-    }
-    await ffmpegLoadingPromise
-  }
+const WEBM_QUALITY_SETTINGS: Record<
+  ExportQuality,
+  { crf: string; cpuUsed: string }
+> = {
+  high: {
+    crf: '24',
+    cpuUsed: '1',
+  },
+  medium: {
+    crf: '32',
+    cpuUsed: '3',
+  },
+  low: {
+    crf: '40',
+    cpuUsed: '5',
+  },
+}
 
-  return ffmpegInstance
+// For lossless WebP, quality sets the compression effort instead.
+const WEBP_QUALITY_SETTINGS: Record<
+  ExportQuality,
+  { quality: string; compressionLevel: string }
+> = {
+  high: {
+    quality: '90',
+    compressionLevel: '6',
+  },
+  medium: {
+    quality: '75',
+    compressionLevel: '4',
+  },
+  low: {
+    quality: '55',
+    compressionLevel: '3',
+  },
 }
 
-export const makeMp4 = async (
-  frames: string[],
-  { intervalMs, quality }: RenderOptions,
+// Matches the running output size in ffmpeg's stats lines, e.g. "size=  256KiB".
+const FFMPEG_SIZE_PATTERN = /size=\s*(\d+)\s*(Ki|k)?B/
+
+/**
+ * Writes each distinct frame into ffmpeg's file system with a concat list
+ * timing the sequence, runs the encoder with `outputArgs` at a constant
+ * rate and returns the output file. Aborting terminates ffmpeg, which
+ * discards its files along with the job.
+ */
+const encodeWithFfmpeg = async (
+  sequenceFrames: string[],
+  durations: number[],
+  outputName: string,
+  outputArgs: string[],
+  mimeType: string,
+  { signal, onProgress }: ExportTaskOptions,
 ): Promise<Blob> => {
-  if (!frames.length) {
+  if (!sequenceFrames.length) {
     throw new Error('No frames available for video rendering.')
   }
 
+  signal?.throwIfAborted()
   const ffmpeg = await getFfmpeg()
-  const fpsValue = Math.max(1, 1000 / Math.max(intervalMs, 40))
-  const fps = fpsValue.toFixed(2)
-  const { crf, preset } = VIDEO_QUALITY_SETTINGS[quality]
+  const { files, list, intervalMs, totalMs } = createConcatList(
+    sequenceFrames,
+    durations,
+  )
+  // A rational rate keeps the timing exact, e.g. 1000/30 for 30 ms ticks.
+  const fps = `1000/${intervalMs}`
+  let bytesWritten: number | undefined
+
+  const handleProgress = ({ progress }: { progress: number }) => {
+    onProgress?.({
+      stage: 'encoding',
+      ratio: Math.min(1, Math.max(0, progress)),
+      bytesWritten,
+    })
+  }
+  const handleLog = ({ message }: { message: string }) => {
+    const match = message.match(FFMPEG_SIZE_PATTERN)
+    if (match) {
+      bytesWritten = Number(match[1]) * (match[2] ? 1024 : 1)
+    }
+  }
+  signal?.addEventListener('abort', terminateFfmpeg)
+  ffmpeg.on('progress', handleProgress)
+  ffmpeg.on('log', handleLog)
+  onProgress?.({ stage: 'encoding', ratio: 0 })
 
   try {
-    for (let index = 0; index < frames.length; index += 1) {
-      const fileName = `frame_${index.toString().padStart(3, '0')}.png`
-      const fileData = await dataUrlToUint8Array(frames[index])
+    for (const [frame, fileName] of files) {
+      const fileData = await dataUrlToUint8Array(frame)
+      signal?.throwIfAborted()
       await ffmpeg.writeFile(fileName, fileData)
     }
+    await ffmpeg.writeFile(CONCAT_LIST_NAME, list)
 
     const exitCode = await ffmpeg.exec([
-      '-framerate',
-      fps,
+      '-f',
+      'concat',
       '-i',
-      'frame_%03d.png',
-      '-c:v',
-      'libx264',
-      '-preset',
-      preset,
-      '-crf',
-      crf,
-      '-pix_fmt',
-      'yuv420p',
-      '-movflags',
-      '+faststart',
-      'output.mp4',
+      CONCAT_LIST_NAME,
+      '-r',
+      fps,
+      '-t',
+      String(totalMs / 1000),
+      ...outputArgs,
+      outputName,
     ])
 
     if (exitCode !== 0) {
       throw new Error('Video rendering failed.')
     }
 
-    const fileData = await ffmpeg.readFile('output.mp4')
+    const fileData = await ffmpeg.readFile(outputName)
     if (!(fileData instanceof Uint8Array)) {
       throw new Error('Unexpected data returned from encoder.')
     }
     const buffer = fileData.slice().buffer
-    return new Blob([buffer], { type: 'video/mp4' })
+    return new Blob([buffer], { type: mimeType })
   } catch (error) {
-    if (error instanceof Error && error.message.includes('libx264')) {
-      error.message =
-        'MP4 export requires H.264 support. Please try a different browser.'
-    }
+    // Calls pending on a terminated instance reject with their own errors.
+    signal?.throwIfAborted()
     throw error
   } finally {
-    for (let index = 0; index < frames.length; index += 1) {
-      const fileName = `frame_${index.toString().padStart(3, '0')}.png`
+    signal?.removeEventListener('abort', terminateFfmpeg)
+    ffmpeg.off('progress', handleProgress)
+    ffmpeg.off('log', handleLog)
+    if (!signal?.aborted) {
+      for (const fileName of [...files.values(), CONCAT_LIST_NAME]) {
+        try {
+          await ffmpeg.deleteFile(fileName)
+        } catch {
+          // Ignore missing file cleanup
+        }
+      }
       try {
-        await ffmpeg.deleteFile(fileName)
+        await ffmpeg.deleteFile(outputName)
       } catch {
-        // Ignore missing file cleanup
+        // Ignore missing output cleanup
       }
     }
-    try {
-      await ffmpeg.deleteFile('output.mp4')
-    } catch {
-      // Ignore missing output cleanup
+  }
+}
+
+/** Container tags for the capture details. */
+const getFfmpegMetadataArgs = (metadata?: ImageMetadata) =>
+  metadata
+    ? [
+        ...(metadata.capturedAt
+          ? ['-metadata', `creation_time=${metadata.capturedAt}`]
+          : []),
+        '-metadata',
+        `comment=${formatMetadataComment(metadata)}`,
+      ]
+    : []
+
+export const makeMp4 = async (
+  sequenceFrames: string[],
+  { durations, quality, metadata, ...task }: RenderOptions,
+): Promise<Blob> => {
+  const { crf, preset } = VIDEO_QUALITY_SETTINGS[quality]
+  try {
+    return await encodeWithFfmpeg(
+      sequenceFrames,
+      durations,
+      'output.mp4',
+      [
+        '-c:v',
+        'libx264',
+        '-preset',
+        preset,
+        '-crf',
+        crf,
+        '-pix_fmt',
+        'yuv420p',
+        '-movflags',
+        '+faststart',
+        ...getFfmpegMetadataArgs(metadata),
+      ],
+      'video/mp4',
+      task,
+    )
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('libx264')) {
+      error.message =
+        'MP4 export requires H.264 support. Please try a different browser.'
     }
+    throw error
   }
 }
+
+/** Encodes a VP9 WebM; the alpha channel is kept for uncovered areas. */
+export const makeWebm = async (
+  sequenceFrames: string[],
+  { durations, quality, metadata, ...task }: RenderOptions,
+): Promise<Blob> => {
+  const { crf, cpuUsed } = WEBM_QUALITY_SETTINGS[quality]
+  return encodeWithFfmpeg(
+    sequenceFrames,
+    durations,
+    'output.webm',
+    [
+      '-c:v',
+      'libvpx-vp9',
+      '-crf',
+      crf,
+      '-b:v',
+      '0',
+      '-deadline',
+      'good',
+      '-cpu-used',
+      cpuUsed,
+      '-row-mt',
+      '1',
+      // libvpx cannot use alternate reference frames together with alpha.
+      '-auto-alt-ref',
+      '0',
+      '-pix_fmt',
+      'yuva420p',
+      ...getFfmpegMetadataArgs(metadata),
+    ],
+    'video/webm',
+    task,
+  )
+}
+
+/**
+ * Encodes an animated WebP. Repeated frames from the constant-rate timeline
+ * are merged back into single frames by the encoder.
+ */
+export const makeWebp = async (
+  sequenceFrames: string[],
+  { durations, quality, lossless, loopCount, ...task }: WebpRenderOptions,
+): Promise<Blob> => {
+  const { quality: webpQuality, compressionLevel } =
+    WEBP_QUALITY_SETTINGS[quality]
+  return encodeWithFfmpeg(
+    sequenceFrames,
+    durations,
+    'output.webp',
+    [
+      '-c:v',
+      'libwebp_anim',
+      '-lossless',
+      lossless ? '1' : '0',
+      '-quality',
+      webpQuality,
+      '-compression_level',
+      compressionLevel,
+      '-pix_fmt',
+      lossless ? 'bgra' : 'yuva420p',
+      '-loop',
+      String(loopCount),
+    ],
+    'image/webp',
+    task,
+  )
+}
@@ -0,0 +1,122 @@
+import type { Dimensions, OutputSizeSettings } from '../types.ts'
+
+export const MIN_OUTPUT_SCALE = 0.05
+export const MAX_OUTPUT_SCALE = 2
+export const MAX_OUTPUT_SIZE = 4096
+
+// Centre weight of the 3×3 unsharp kernel is 1 + 4 × this.
+const SHARPEN_AMOUNT = 0.35
+
+const clampSize = (value: number) =>
+  Math.min(MAX_OUTPUT_SIZE, Math.max(1, Math.round(value)))
+
+/**
+ * Clamps both sides by the same factor, so a size over the limit keeps its
+ * aspect ratio.
+ */
+const fitSize = (width: number, height: number): Dimensions => {
+  const factor = Math.min(
+    1,
+    MAX_OUTPUT_SIZE / Math.max(width, 1),
+    MAX_OUTPUT_SIZE / Math.max(height, 1),
+  )
+  return {
+    width: clampSize(width * factor),
+    height: clampSize(height * factor),
+  }
+}
+
+/** Resolves the output setting to pixel dimensions for the given crop. */
+export const resolveOutputSize = (
+  crop: Dimensions,
+  output: OutputSizeSettings,
+): Dimensions => {
+  if (output.mode === 'exact') {
+    if (output.lockAspect && crop.width) {
+      return fitSize(output.width, (output.width * crop.height) / crop.width)
+    }
+    return {
+      width: clampSize(output.width),
+      height: clampSize(output.height),
+    }
+  }
+  const factor =
+    output.mode === 'long-edge'
+      ? // Only shrinks: a long edge above the crop keeps source pixels.
+        Math.min(1, output.longEdge / Math.max(crop.width, crop.height, 1))
+      : Math.min(MAX_OUTPUT_SCALE, Math.max(MIN_OUTPUT_SCALE, output.scale))
+  return fitSize(crop.width * factor, crop.height * factor)
+}
+
+const createCanvas = (size: Dimensions) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = size.width
+  canvas.height = size.height
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Unable to resize frame.')
+  }
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = 'high'
+  return { canvas, context }
+}
+
+/**
+ * Resizes a canvas. Large reductions are done in halving steps so every
+ * source pixel contributes, which avoids the aliasing of a single
+ * bilinear draw.
+ */
+export const resampleCanvas = (
+  source: HTMLCanvasElement,
+  size: Dimensions,
+): HTMLCanvasElement => {
+  let current = source
+  while (
+    current.width / 2 >= size.width &&
+    current.height / 2 >= size.height
+  ) {
+    const { canvas, context } = createCanvas({
+      width: Math.round(current.width / 2),
+      height: Math.round(current.height / 2),
+    })
+    context.drawImage(current, 0, 0, canvas.width, canvas.height)
+    current = canvas
+  }
+  if (current.width === size.width && current.height === size.height) {
+    return current
+  }
+  const { canvas, context } = createCanvas(size)
+  context.drawImage(current, 0, 0, size.width, size.height)
+  return canvas
+}
+
+/** Applies a light unsharp mask in place, leaving alpha untouched. */
+export const sharpenCanvas = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d')
+  if (!context) return
+  const { width, height } = canvas
+  const image = context.getImageData(0, 0, width, height)
+  const source = new Uint8ClampedArray(image.data)
+  const target = image.data
+  const center = 1 + 4 * SHARPEN_AMOUNT
+
+  for (let y = 0; y < height; y += 1) {
+    const up = (y > 0 ? y - 1 : y) * width
+    const down = (y < height - 1 ? y + 1 : y) * width
+    for (let x = 0; x < width; x += 1) {
+      const left = x > 0 ? x - 1 : x
+      const right = x < width - 1 ? x + 1 : x
+      const offset = (y * width + x) * 4
+      for (let channel = 0; channel < 3; channel += 1) {
+        const neighbours =
+          source[(up + x) * 4 + channel] +
+          source[(down + x) * 4 + channel] +
+          source[(y * width + left) * 4 + channel] +
+          source[(y * width + right) * 4 + channel]
+        target[offset + channel] =
+          source[offset + channel] * center - neighbours * SHARPEN_AMOUNT
+      }
+    }
+  }
+  context.putImageData(image, 0, 0)
+}
@@ -0,0 +1,126 @@
+import type {
+  LoadedImage,
+  PlaybackSequence,
+  PlaybackStep,
+  SequencePreset,
+  SequenceStep,
+} from '../types.ts'
+
+export const MIN_STEP_DURATION = 40
+export const MAX_STEP_DURATION = 5000
+export const MAX_INBETWEEN_COUNT = 8
+// In-between steps may be shorter than editable steps; browsers and GIF
+// viewers don't show anything much faster.
+const MIN_INBETWEEN_DURATION = 20
+
+export const clampStepDuration = (value: number) =>
+  Math.min(
+    MAX_STEP_DURATION,
+    Math.max(MIN_STEP_DURATION, Math.round(value) || MIN_STEP_DURATION),
+  )
+
+const frameOrderForPreset = (
+  preset: Exclude<SequencePreset, 'custom'>,
+  frameIds: string[],
+) => {
+  if (preset === 'ping-pong' && frameIds.length > 2) {
+    return [...frameIds, ...frameIds.slice(1, -1).reverse()]
+  }
+  return frameIds
+}
+
+/**
+ * Resolves the sequence into concrete steps. Preset sequences follow the
+ * current frame order; custom sequences drop steps whose frame was removed.
+ */
+export const resolveSequenceSteps = (
+  sequence: PlaybackSequence,
+  frameIds: string[],
+  defaultDurationMs: number,
+): SequenceStep[] => {
+  if (sequence.preset === 'custom') {
+    return sequence.steps
+      .filter((step) => frameIds.includes(step.frameId))
+      .map((step) => ({
+        ...step,
+        durationMs: clampStepDuration(step.durationMs),
+      }))
+  }
+  const duration = clampStepDuration(defaultDurationMs)
+  return frameOrderForPreset(sequence.preset, frameIds).map((frameId) => ({
+    frameId,
+    durationMs: duration,
+  }))
+}
+
+export const getInbetweenKey = (fromId: string, toId: string) =>
+  `${fromId}>${toId}`
+
+/**
+ * Inserts `count` generated steps after every step, leading to the next one
+ * (the last leads back to the first, as the loop does). Each step shares its
+ * time evenly with its in-betweens, so the loop keeps its length.
+ */
+export const expandInbetweenSteps = (
+  steps: SequenceStep[],
+  count: number,
+): PlaybackStep[] => {
+  if (count <= 0 || steps.length < 2) return steps
+  return steps.flatMap((step, index) => {
+    const next = steps[(index + 1) % steps.length]
+    if (next.frameId === step.frameId) return [step]
+    const durationMs = Math.max(
+      MIN_INBETWEEN_DURATION,
+      Math.round(step.durationMs / (count + 1)),
+    )
+    return [
+      { ...step, durationMs },
+      ...Array.from({ length: count }, (_, inbetweenIndex) => ({
+        frameId: step.frameId,
+        durationMs,
+        inbetween: { toFrameId: next.frameId, index: inbetweenIndex },
+      })),
+    ]
+  })
+}
+
+/** Lists each pair of frames the steps need in-betweens for, once. */
+export const getInbetweenPairs = (steps: PlaybackStep[]) => {
+  const pairs = new Map<string, [string, string]>()
+  for (const { frameId, inbetween } of steps) {
+    if (!inbetween) continue
+    pairs.set(getInbetweenKey(frameId, inbetween.toFrameId), [
+      frameId,
+      inbetween.toFrameId,
+    ])
+  }
+  return [...pairs.values()]
+}
+
+/**
+ * Orders rendered frames (one per image) to match the sequence steps.
+ * In-between steps take their frame from `inbetweens`, keyed by
+ * getInbetweenKey.
+ */
+export const arrangeFrames = <T>(
+  images: LoadedImage[],
+  rendered: T[],
+  steps: PlaybackStep[],
+  inbetweens?: Map<string, T[]>,
+): T[] =>
+  steps.map((step) => {
+    if (step.inbetween) {
+      const frame = inbetweens?.get(
+        getInbetweenKey(step.frameId, step.inbetween.toFrameId),
+      )?.[step.inbetween.index]
+      if (frame === undefined) {
+        throw new Error('Sequence refers to a missing in-between frame.')
+      }
+      return frame
+    }
+    const index = images.findIndex((image) => image.id === step.frameId)
+    if (index < 0 || rendered[index] === undefined) {
+      throw new Error('Sequence refers to a missing frame.')
+    }
+    return rendered[index]
+  })
@@ -0,0 +1,165 @@
+import {
+  manifestToSnapshot,
+  migrateManifest,
+  snapshotToManifest,
+} from './project.ts'
+import type { ProjectManifest, ProjectSnapshot } from './project.ts'
+
+const DB_NAME = 'wigglegram-studio'
+const DB_VERSION = 1
+const SESSION_STORE = 'session'
+const BLOB_STORE = 'blobs'
+const SESSION_KEY = 'current'
+
+export interface StoredSession {
+  savedAt: string
+  snapshot: ProjectSnapshot
+}
+
+// Blobs keep their storage key for as long as they live, so unchanged images
+// are not rewritten on every autosave.
+const blobKeys = new WeakMap<Blob, string>()
+
+const getBlobKey = (blob: Blob) => {
+  let key = blobKeys.get(blob)
+  if (!key) {
+    key =
+      typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `blob-${Math.random().toString(16).slice(2)}`
+    blobKeys.set(blob, key)
+  }
+  return key
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error('Storage transaction aborted.'))
+    transaction.onerror = () =>
+      reject(transaction.error ?? new Error('Storage transaction failed.'))
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser does not support session storage.'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE)
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          db.createObjectStore(BLOB_STORE)
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch((error) => {
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+const toStorageError = (error: unknown) => {
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new Error(
+      'Browser storage is full, so autosave is paused. Free up space or save the project to a file.',
+    )
+  }
+  return error instanceof Error ? error : new Error('Unable to autosave session.')
+}
+
+/**
+ * Persists the snapshot. Image blobs live in their own store and are only
+ * written when new; blobs no longer referenced are removed.
+ */
+export const saveSession = async (snapshot: ProjectSnapshot) => {
+  try {
+    const db = await openDatabase()
+    const manifest = snapshotToManifest(snapshot, (frame) =>
+      getBlobKey(frame.blob as Blob),
+    )
+    const transaction = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+    // A failed read below throws first; the abort that follows must not
+    // surface as an unhandled rejection.
+    done.catch(() => {})
+    const blobStore = transaction.objectStore(BLOB_STORE)
+    const storedKeys = new Set(
+      (await requestToPromise(blobStore.getAllKeys())).map(String),
+    )
+    const usedKeys = new Set<string>()
+
+    snapshot.frames.forEach((frame, index) => {
+      const key = manifest.frames[index].path
+      if (!frame.blob || !key) return
+      usedKeys.add(key)
+      if (!storedKeys.has(key)) {
+        blobStore.put(frame.blob, key)
+      }
+    })
+    storedKeys.forEach((key) => {
+      if (!usedKeys.has(key)) {
+        blobStore.delete(key)
+      }
+    })
+    transaction.objectStore(SESSION_STORE).put(manifest, SESSION_KEY)
+
+    await done
+  } catch (error) {
+    throw toStorageError(error)
+  }
+}
+
+export const loadSession = async (): Promise<StoredSession | null> => {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, BLOB_STORE], 'readonly')
+  const record = await requestToPromise<ProjectManifest | undefined>(
+    transaction.objectStore(SESSION_STORE).get(SESSION_KEY),
+  )
+  if (!record) return null
+
+  const manifest = migrateManifest(record)
+  const blobStore = transaction.objectStore(BLOB_STORE)
+  const blobs = new Map<string, Blob>()
+  for (const frame of manifest.frames) {
+    if (!frame.path) continue
+    const blob = await requestToPromise<Blob | undefined>(
+      blobStore.get(frame.path),
+    )
+    if (blob) {
+      blobKeys.set(blob, frame.path)
+      blobs.set(frame.path, blob)
+    }
+  }
+
+  return {
+    savedAt: manifest.savedAt,
+    snapshot: manifestToSnapshot(manifest, (path) => blobs.get(path)),
+  }
+}
+
+export const clearSession = async () => {
+  const db = await openDatabase()
+  const transaction = db.transaction([SESSION_STORE, BLOB_STORE], 'readwrite')
+  const done = transactionDone(transaction)
+  transaction.objectStore(SESSION_STORE).clear()
+  transaction.objectStore(BLOB_STORE).clear()
+  await done
+}
@@ -0,0 +1,211 @@
+import type { ImageAdjustments } from '../types.ts'
+
+/**
+ * Global keyboard shortcuts. The key handler and the help overlay both read
+ * from here, so the overlay always lists what the keys actually do.
+ */
+
+export type NudgeKey = keyof Pick<
+  ImageAdjustments,
+  'offsetX' | 'offsetY' | 'rotation' | 'scale'
+>
+
+export type ShortcutAction =
+  | { type: 'nudge'; key: NudgeKey; delta: number }
+  | { type: 'select-frame'; index: number }
+  | { type: 'cycle-frame'; direction: 1 | -1 }
+  | { type: 'toggle-pin' }
+  | { type: 'toggle-play' }
+  | { type: 'toggle-help' }
+  | { type: 'close-help' }
+
+export interface ShortcutGroup {
+  title: string
+  shortcuts: Array<{ keys: string[]; description: string }>
+}
+
+interface NudgeSteps {
+  normal: number
+  /** With Shift held. */
+  coarse: number
+  /** With Alt held. */
+  fine: number
+}
+
+const OFFSET_STEPS: NudgeSteps = { normal: 1, coarse: 10, fine: 0.1 }
+const ROTATION_STEPS: NudgeSteps = { normal: 0.1, coarse: 1, fine: 0.01 }
+// "+" needs Shift on most layouts, so scale has no coarse step.
+const SCALE_STEPS: NudgeSteps = { normal: 0.01, coarse: 0.01, fine: 0.001 }
+
+/**
+ * Decimal places nudged or dragged values are rounded to, to keep float
+ * noise out.
+ */
+export const NUDGE_PRECISION: Record<NudgeKey, number> = {
+  offsetX: 2,
+  offsetY: 2,
+  rotation: 2,
+  scale: 3,
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: 'Align the active frame',
+    shortcuts: [
+      {
+        keys: ['←', '→', '↑', '↓'],
+        description: 'Move by 1 px (Shift: 10 px, Alt: 0.1 px)',
+      },
+      {
+        keys: ['[', ']'],
+        description: 'Rotate by 0.1° (Shift: 1°, Alt: 0.01°)',
+      },
+      { keys: ['+', '−'], description: 'Scale by 1% (Alt: 0.1%)' },
+    ],
+  },
+  {
+    title: 'Frames',
+    shortcuts: [
+      { keys: ['1', '…', '9'], description: 'Select frame 1 to 9' },
+      {
+        keys: ['Tab', 'Shift+Tab'],
+        description: 'Next or previous frame, when nothing has focus',
+      },
+      { keys: ['P'], description: 'Pin or unpin the active frame' },
+    ],
+  },
+  {
+    title: 'General',
+    shortcuts: [
+      { keys: ['Space'], description: 'Play or pause the preview' },
+      { keys: ['Ctrl+Z', 'Ctrl+Shift+Z'], description: 'Undo and redo' },
+      { keys: ['?'], description: 'Show or hide this list' },
+    ],
+  },
+]
+
+const TEXT_INPUT_TYPES = [
+  'text',
+  'search',
+  'email',
+  'url',
+  'password',
+  'number',
+]
+
+/**
+ * Whether the target takes typed text and so has its own undo. Sliders and
+ * checkboxes don't, so undo still reaches the history after editing them.
+ */
+export const isTextEntryTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement &&
+      TEXT_INPUT_TYPES.includes(target.type)))
+
+/** Whether the target is a form field that handles its own keys. */
+const isFieldTarget = (target: HTMLElement) =>
+  target.isContentEditable ||
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  target instanceof HTMLSelectElement
+
+/**
+ * Whether the key belongs to the focused element: anything typed into a
+ * field, and Space or Enter on buttons and links.
+ */
+export const isShortcutBlocked = (event: KeyboardEvent) => {
+  const { target } = event
+  if (!(target instanceof HTMLElement)) return false
+  if (isFieldTarget(target)) return true
+  return (
+    (event.key === ' ' || event.key === 'Enter') &&
+    target.closest('button, a[href], [role="button"]') !== null
+  )
+}
+
+const nudge = (
+  event: KeyboardEvent,
+  key: NudgeKey,
+  steps: NudgeSteps,
+  sign: 1 | -1,
+): ShortcutAction => ({
+  type: 'nudge',
+  key,
+  delta:
+    sign *
+    (event.altKey ? steps.fine : event.shiftKey ? steps.coarse : steps.normal),
+})
+
+/** Maps a key press to its shortcut, or null when it has none. */
+export const getShortcutAction = (
+  event: KeyboardEvent,
+): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey) return null
+
+  switch (event.key) {
+    case 'ArrowLeft':
+      return nudge(event, 'offsetX', OFFSET_STEPS, -1)
+    case 'ArrowRight':
+      return nudge(event, 'offsetX', OFFSET_STEPS, 1)
+    case 'ArrowUp':
+      return nudge(event, 'offsetY', OFFSET_STEPS, -1)
+    case 'ArrowDown':
+      return nudge(event, 'offsetY', OFFSET_STEPS, 1)
+    case ' ':
+      return { type: 'toggle-play' }
+    case '?':
+      return { type: 'toggle-help' }
+    case 'Escape':
+      return { type: 'close-help' }
+    case 'Tab':
+      // Tab only switches frames while it has no focus to move.
+      return event.target === document.body
+        ? { type: 'cycle-frame', direction: event.shiftKey ? -1 : 1 }
+        : null
+  }
+
+  switch (event.key) {
+    case '[':
+    case '{':
+      return nudge(event, 'rotation', ROTATION_STEPS, -1)
+    case ']':
+    case '}':
+      return nudge(event, 'rotation', ROTATION_STEPS, 1)
+    case '+':
+    case '=':
+      return nudge(event, 'scale', SCALE_STEPS, 1)
+    case '-':
+    case '_':
+      return nudge(event, 'scale', SCALE_STEPS, -1)
+  }
+
+  // On macOS, Option turns these keys into other characters, so with Alt
+  // held fall back to the physical key.
+  if (event.altKey) {
+    switch (event.code) {
+      case 'BracketLeft':
+        return nudge(event, 'rotation', ROTATION_STEPS, -1)
+      case 'BracketRight':
+        return nudge(event, 'rotation', ROTATION_STEPS, 1)
+      case 'Equal':
+      case 'NumpadAdd':
+        return nudge(event, 'scale', SCALE_STEPS, 1)
+      case 'Minus':
+      case 'NumpadSubtract':
+        return nudge(event, 'scale', SCALE_STEPS, -1)
+    }
+  }
+
+  // Physical digit keys, so layouts like AZERTY work. Shift+digit types a
+  // symbol on most layouts, so it is left alone.
+  const digit = event.code.match(/^(Digit|Numpad)([1-9])$/)
+  if (digit && !event.altKey && !(digit[1] === 'Digit' && event.shiftKey)) {
+    return { type: 'select-frame', index: Number(digit[2]) - 1 }
+  }
+  if (event.key.toLowerCase() === 'p' && !event.altKey) {
+    return { type: 'toggle-pin' }
+  }
+  return null
+}
@@ -0,0 +1,160 @@
+import type {
+  FrameRenderOptions,
+  LoadedImage,
+  StereoExportSettings,
+  StereoLayout,
+} from '../types.ts'
+import {
+  ensureImageElement,
+  generateFrames,
+  readFramePixels,
+} from './rendering.ts'
+import { resolveOutputSize } from './resample.ts'
+
+/**
+ * Still stereo outputs from two frames: red/cyan anaglyphs and stereo cards
+ * with both views next to or above each other. Both views go through the
+ * same crop, edge fill and output size as the wigglegram.
+ */
+
+type AnaglyphLayout = Extract<StereoLayout, 'anaglyph' | 'anaglyph-dubois'>
+
+/**
+ * Row-major 3×3 matrices giving the output RGB from each view's linear RGB.
+ * The colour anaglyph takes red from the left view and green and blue from
+ * the right; Dubois' least-squares matrices trade some colour for much less
+ * ghosting through red/cyan glasses.
+ */
+const ANAGLYPH_MATRICES: Record<
+  AnaglyphLayout,
+  { left: number[]; right: number[] }
+> = {
+  anaglyph: {
+    left: [1, 0, 0, 0, 0, 0, 0, 0, 0],
+    right: [0, 0, 0, 0, 1, 0, 0, 0, 1],
+  },
+  'anaglyph-dubois': {
+    left: [0.456, 0.5, 0.176, -0.04, -0.038, -0.016, -0.015, -0.021, -0.005],
+    right: [
+      -0.043, -0.088, -0.002, 0.378, 0.734, -0.018, -0.072, -0.113, 1.226,
+    ],
+  },
+}
+
+const JPEG_QUALITY = 0.92
+
+const isAnaglyph = (layout: StereoLayout): layout is AnaglyphLayout =>
+  layout in ANAGLYPH_MATRICES
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => {
+  const channel = value / 255
+  return channel <= 0.04045
+    ? channel / 12.92
+    : ((channel + 0.055) / 1.055) ** 2.4
+})
+
+const linearToSrgb = (value: number) => {
+  const channel = Math.min(1, Math.max(0, value))
+  return (
+    255 *
+    (channel <= 0.0031308
+      ? channel * 12.92
+      : 1.055 * channel ** (1 / 2.4) - 0.055)
+  )
+}
+
+/**
+ * Mixes the views into one anaglyph. Uncovered pixels of a view add
+ * nothing, so the result is covered wherever either view is.
+ */
+const composeAnaglyph = (
+  left: Uint8ClampedArray,
+  right: Uint8ClampedArray,
+  layout: AnaglyphLayout,
+) => {
+  const matrices = ANAGLYPH_MATRICES[layout]
+  const output = new Uint8ClampedArray(left.length)
+  for (let index = 0; index < left.length; index += 4) {
+    const leftAlpha = left[index + 3] / 255
+    const rightAlpha = right[index + 3] / 255
+    for (let row = 0; row < 3; row += 1) {
+      let value = 0
+      for (let column = 0; column < 3; column += 1) {
+        value +=
+          matrices.left[row * 3 + column] *
+            SRGB_TO_LINEAR[left[index + column]] *
+            leftAlpha +
+          matrices.right[row * 3 + column] *
+            SRGB_TO_LINEAR[right[index + column]] *
+            rightAlpha
+      }
+      output[index + row] = linearToSrgb(value)
+    }
+    output[index + 3] = Math.max(left[index + 3], right[index + 3])
+  }
+  return output
+}
+
+/**
+ * Renders the two frames as one stereo image. JPEG has no transparency, so
+ * uncovered areas without an edge fill come out black there.
+ */
+export const makeStereoImage = async (
+  [left, right]: [LoadedImage, LoadedImage],
+  options: FrameRenderOptions,
+  { layout, format }: StereoExportSettings,
+): Promise<Blob> => {
+  const size = options.output
+    ? resolveOutputSize(options.crop, options.output)
+    : options.crop
+  const [leftView, rightView] = await generateFrames([left, right], options)
+  const canvas = document.createElement('canvas')
+  canvas.width =
+    size.width * (layout === 'parallel' || layout === 'cross-eyed' ? 2 : 1)
+  canvas.height = size.height * (layout === 'over-under' ? 2 : 1)
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Unable to render stereo image.')
+  }
+
+  if (isAnaglyph(layout)) {
+    const [leftPixels, rightPixels] = await Promise.all([
+      readFramePixels(leftView, size),
+      readFramePixels(rightView, size),
+    ])
+    context.putImageData(
+      new ImageData(
+        composeAnaglyph(leftPixels, rightPixels, layout),
+        size.width,
+        size.height,
+      ),
+      0,
+      0,
+    )
+  } else {
+    const [leftElement, rightElement] = await Promise.all([
+      ensureImageElement(leftView),
+      ensureImageElement(rightView),
+    ])
+    // Cross-eyed cards put the right view on the left.
+    const [first, second] =
+      layout === 'cross-eyed'
+        ? [rightElement, leftElement]
+        : [leftElement, rightElement]
+    context.drawImage(first, 0, 0, size.width, size.height)
+    if (layout === 'over-under') {
+      context.drawImage(second, 0, size.height, size.width, size.height)
+    } else {
+      context.drawImage(second, size.width, 0, size.width, size.height)
+    }
+  }
+
+  const mimeType = format === 'jpeg' ? 'image/jpeg' : 'image/png'
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mimeType, JPEG_QUALITY),
+  )
+  if (!blob) {
+    throw new Error('Unable to encode stereo image.')
+  }
+  return blob
+}
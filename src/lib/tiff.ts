@@ -0,0 +1,139 @@
+/**
+ * Readers for the TIFF structures that EXIF and MPF metadata store inside
+ * JPEG application segments.
+ */
+
+export interface IfdEntry {
+  type: number
+  count: number
+  valueOffset: number
+}
+
+export interface TiffReader {
+  view: DataView
+  start: number
+  littleEndian: boolean
+}
+
+// Byte sizes of the TIFF field types this app reads.
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+}
+
+/**
+ * Finds the APPn segment with `marker` whose data starts with `identifier`
+ * and returns the position just after the identifier.
+ */
+export const findJpegSegment = (
+  bytes: Uint8Array,
+  start: number,
+  marker: number,
+  identifier: number[],
+): number | null => {
+  if (bytes[start] !== 0xff || bytes[start + 1] !== 0xd8) return null
+  let position = start + 2
+  while (position + 4 <= bytes.length) {
+    if (bytes[position] !== 0xff) return null
+    const segment = bytes[position + 1]
+    // Start of scan: metadata segments are all before this point.
+    if (segment === 0xda) return null
+    const length = (bytes[position + 2] << 8) | bytes[position + 3]
+    if (
+      segment === marker &&
+      identifier.every((value, index) => bytes[position + 4 + index] === value)
+    ) {
+      return position + 4 + identifier.length
+    }
+    position += 2 + length
+  }
+  return null
+}
+
+export const createTiffReader = (
+  bytes: Uint8Array,
+  start: number,
+): TiffReader | null => {
+  if (start + 8 > bytes.length) return null
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const order = view.getUint16(start)
+  if (order !== 0x4949 && order !== 0x4d4d) return null
+  return { view, start, littleEndian: order === 0x4949 }
+}
+
+export const readIfd = (
+  { view, start, littleEndian }: TiffReader,
+  offset: number,
+) => {
+  const entries = new Map<number, IfdEntry>()
+  const base = start + offset
+  if (base + 2 > view.byteLength) return { entries, next: 0 }
+  const count = view.getUint16(base, littleEndian)
+  for (let index = 0; index < count; index += 1) {
+    const entry = base + 2 + index * 12
+    if (entry + 12 > view.byteLength) break
+    entries.set(view.getUint16(entry, littleEndian), {
+      type: view.getUint16(entry + 2, littleEndian),
+      count: view.getUint32(entry + 4, littleEndian),
+      valueOffset: entry + 8,
+    })
+  }
+  const nextPosition = base + 2 + count * 12
+  const next =
+    nextPosition + 4 <= view.byteLength
+      ? view.getUint32(nextPosition, littleEndian)
+      : 0
+  return { entries, next }
+}
+
+/**
+ * Position of an entry's data: inline when it fits in four bytes, otherwise
+ * at the offset stored there. Returns null when the data is out of range.
+ */
+const getDataPosition = (reader: TiffReader, entry: IfdEntry) => {
+  const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count
+  const position =
+    size <= 4
+      ? entry.valueOffset
+      : reader.start +
+        reader.view.getUint32(entry.valueOffset, reader.littleEndian)
+  return position + size <= reader.view.byteLength ? position : null
+}
+
+/** Reads a SHORT or LONG value. */
+export const readInteger = (reader: TiffReader, entry: IfdEntry) => {
+  const position = getDataPosition(reader, entry)
+  if (position === null) return null
+  if (entry.type === 3) {
+    return reader.view.getUint16(position, reader.littleEndian)
+  }
+  return entry.type === 4
+    ? reader.view.getUint32(position, reader.littleEndian)
+    : null
+}
+
+export const readRational = (reader: TiffReader, entry: IfdEntry) => {
+  const position = entry.type === 5 ? getDataPosition(reader, entry) : null
+  if (position === null) return null
+  const denominator = reader.view.getUint32(position + 4, reader.littleEndian)
+  return denominator
+    ? reader.view.getUint32(position, reader.littleEndian) / denominator
+    : null
+}
+
+/** Reads an ASCII value without its terminator and padding. */
+export const readAscii = (reader: TiffReader, entry: IfdEntry) => {
+  const position = entry.type === 2 ? getDataPosition(reader, entry) : null
+  if (position === null) return null
+  let text = ''
+  for (let index = 0; index < entry.count; index += 1) {
+    const code = reader.view.getUint8(position + index)
+    if (!code) break
+    text += String.fromCharCode(code)
+  }
+  return text.trim() || null
+}
@@ -0,0 +1,93 @@
+import type { ToneAdjustments } from '../types.ts'
+
+/**
+ * Per-frame tone controls. Every setting is linear in the pixel values, so
+ * together they reduce to one colour matrix: the preview applies it as an
+ * SVG feColorMatrix and exports apply it to the rendered pixels.
+ */
+
+export const NEUTRAL_TONE: ToneAdjustments = {
+  exposure: 0,
+  contrast: 0,
+  temperature: 0,
+  tint: 0,
+  saturation: 0,
+}
+
+export const TONE_RANGES: Record<
+  keyof ToneAdjustments,
+  { min: number; max: number; step: number }
+> = {
+  exposure: { min: -2, max: 2, step: 0.05 },
+  contrast: { min: -100, max: 100, step: 1 },
+  temperature: { min: -100, max: 100, step: 1 },
+  tint: { min: -100, max: 100, step: 1 },
+  saturation: { min: -100, max: 100, step: 1 },
+}
+
+export const TONE_KEYS = Object.keys(
+  NEUTRAL_TONE,
+) as (keyof ToneAdjustments)[]
+
+/** Rec. 709 luma weights. */
+export const LUMA = [0.2126, 0.7152, 0.0722]
+
+export const isNeutralTone = (tone: ToneAdjustments) =>
+  TONE_KEYS.every((key) => tone[key] === 0)
+
+/** CSS filter that shows the tone settings, matching a ToneFilters entry. */
+export const getToneFilter = (
+  idPrefix: string,
+  id: string,
+  tone: ToneAdjustments,
+) => (isNeutralTone(tone) ? undefined : `url(#${idPrefix}-${id})`)
+
+/**
+ * Builds the 4×5 row-major colour matrix (feColorMatrix layout, offsets in
+ * 0–1 units) for the tone settings. White balance and exposure scale the
+ * channels, contrast pivots around mid grey and saturation mixes each
+ * channel with the luma.
+ */
+export const getToneMatrix = (tone: ToneAdjustments): number[] => {
+  const exposure = 2 ** tone.exposure
+  const gains = [
+    exposure * 2 ** (tone.temperature / 200),
+    exposure * 2 ** (-tone.tint / 200),
+    exposure * 2 ** (-tone.temperature / 200),
+  ]
+  const contrast = 1 + tone.contrast / 100
+  const saturation = 1 + tone.saturation / 100
+  const offset = 0.5 * (1 - contrast)
+
+  const matrix: number[] = []
+  for (let row = 0; row < 3; row += 1) {
+    for (let column = 0; column < 3; column += 1) {
+      const mix =
+        (1 - saturation) * LUMA[column] + (row === column ? saturation : 0)
+      matrix.push(contrast * mix * gains[column])
+    }
+    matrix.push(0, offset)
+  }
+  matrix.push(0, 0, 0, 1, 0)
+  return matrix
+}
+
+/** Applies a colour matrix from getToneMatrix to RGBA pixels in place. */
+export const applyToneMatrix = (
+  pixels: Uint8ClampedArray,
+  matrix: number[],
+) => {
+  for (let index = 0; index < pixels.length; index += 4) {
+    const red = pixels[index]
+    const green = pixels[index + 1]
+    const blue = pixels[index + 2]
+    for (let row = 0; row < 3; row += 1) {
+      const base = row * 5
+      pixels[index + row] =
+        matrix[base] * red +
+        matrix[base + 1] * green +
+        matrix[base + 2] * blue +
+        matrix[base + 4] * 255
+    }
+  }
+}
@@ -0,0 +1,193 @@
+import type { CropRect, LoadedImage, ToneAdjustments } from '../types.ts'
+import { drawAdjustedImage, ensureImageElement } from './rendering.ts'
+import {
+  LUMA,
+  NEUTRAL_TONE,
+  TONE_KEYS,
+  TONE_RANGES,
+  applyToneMatrix,
+  getToneMatrix,
+  isNeutralTone,
+} from './tone.ts'
+
+// Long edge of the sample used to measure a frame.
+const SAMPLE_SIZE = 256
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value))
+
+interface ToneStats {
+  /** Mean red, green and blue, from 0 to 1. */
+  channels: number[]
+  luma: number
+  lumaDeviation: number
+  /** Mean distance of the channels from the luma. */
+  chroma: number
+}
+
+// Each pass corrects what the previous settings missed; the controls
+// interact (contrast shifts the white balance, for one), so a single solve
+// lands short.
+const MATCH_PASSES = 4
+
+/** Renders a small sample of a frame as it appears inside the crop. */
+const sampleFrame = async (
+  image: LoadedImage,
+  crop: CropRect,
+): Promise<Uint8ClampedArray> => {
+  if (!image.objectUrl) {
+    throw new Error(`${image.label} has no image to measure.`)
+  }
+  const element = await ensureImageElement(image.objectUrl)
+  const factor = Math.min(1, SAMPLE_SIZE / Math.max(crop.width, crop.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(crop.width * factor))
+  canvas.height = Math.max(1, Math.round(crop.height * factor))
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('Unable to measure frame tone.')
+  }
+  context.scale(factor, factor)
+  drawAdjustedImage(context, element, image.adjustments, crop)
+
+  return context.getImageData(0, 0, canvas.width, canvas.height).data
+}
+
+/** Measures sampled pixels as they look with the given tone settings. */
+const measureTone = (
+  sample: Uint8ClampedArray,
+  tone: ToneAdjustments,
+): ToneStats | null => {
+  const data = new Uint8ClampedArray(sample)
+  if (!isNeutralTone(tone)) {
+    applyToneMatrix(data, getToneMatrix(tone))
+  }
+
+  const sums = [0, 0, 0]
+  let lumaSum = 0
+  let lumaSquares = 0
+  let chromaSum = 0
+  let count = 0
+  for (let index = 0; index < data.length; index += 4) {
+    // Uncovered edges would pull every statistic towards black.
+    if (data[index + 3] < 128) continue
+    const red = data[index] / 255
+    const green = data[index + 1] / 255
+    const blue = data[index + 2] / 255
+    const luma = LUMA[0] * red + LUMA[1] * green + LUMA[2] * blue
+    sums[0] += red
+    sums[1] += green
+    sums[2] += blue
+    lumaSum += luma
+    lumaSquares += luma * luma
+    chromaSum +=
+      (Math.abs(red - luma) + Math.abs(green - luma) + Math.abs(blue - luma)) /
+      3
+    count += 1
+  }
+  if (!count) return null
+
+  const luma = lumaSum / count
+  return {
+    channels: sums.map((sum) => sum / count),
+    luma,
+    lumaDeviation: Math.sqrt(Math.max(0, lumaSquares / count - luma * luma)),
+    chroma: chromaSum / count,
+  }
+}
+
+/**
+ * Solves the change that gives `source` the reference's mean brightness,
+ * contrast, white balance and saturation. Contrast and saturation come back
+ * as factors; the other settings in their own units.
+ */
+const solveToneCorrection = (source: ToneStats, reference: ToneStats) => {
+  const epsilon = 1e-3
+  const [sourceRed, sourceGreen, sourceBlue] = source.channels.map((value) =>
+    Math.max(epsilon, value),
+  )
+  const [referenceRed, referenceGreen, referenceBlue] = reference.channels.map(
+    (value) => Math.max(epsilon, value),
+  )
+
+  // Exposure and contrast together scale the luma spread by this factor.
+  const spread =
+    reference.lumaDeviation / Math.max(epsilon, source.lumaDeviation)
+  const contrast = clamp(
+    2 * (source.luma * spread - reference.luma) + 1,
+    0.05,
+    2,
+  )
+  return {
+    exposure: Math.log2(spread / contrast),
+    contrast,
+    temperature:
+      100 * Math.log2(referenceRed / referenceBlue / (sourceRed / sourceBlue)),
+    tint:
+      -200 *
+      Math.log2(
+        referenceGreen /
+          Math.sqrt(referenceRed * referenceBlue) /
+          (sourceGreen / Math.sqrt(sourceRed * sourceBlue)),
+      ),
+    saturation: reference.chroma / Math.max(epsilon, source.chroma * spread),
+  }
+}
+
+const clampTone = (tone: ToneAdjustments, round = false) => {
+  const clamped = { ...tone }
+  TONE_KEYS.forEach((key) => {
+    const { min, max, step } = TONE_RANGES[key]
+    const value = round ? Math.round(tone[key] / step) * step : tone[key]
+    clamped[key] = clamp(Number(value.toFixed(2)), min, max)
+  })
+  return clamped
+}
+
+/**
+ * Matches every other loaded frame to the reference frame's colour
+ * statistics inside the crop. Returns new tone settings keyed by frame id;
+ * each replaces the frame's current tone.
+ */
+export const autoMatchTone = async (
+  images: LoadedImage[],
+  referenceId: string,
+  crop: CropRect,
+): Promise<Record<string, ToneAdjustments>> => {
+  const reference = images.find((image) => image.id === referenceId)
+  if (!reference) {
+    throw new Error('Reference frame not found.')
+  }
+  const referenceStats = measureTone(
+    await sampleFrame(reference, crop),
+    reference.adjustments,
+  )
+  if (!referenceStats) {
+    throw new Error(`${reference.label} does not cover the crop.`)
+  }
+
+  const results: Record<string, ToneAdjustments> = {}
+  for (const image of images) {
+    // Empty slots are skipped, as auto-align does.
+    if (image.id === referenceId || !image.objectUrl) continue
+    const sample = await sampleFrame(image, crop)
+    let tone = NEUTRAL_TONE
+    for (let pass = 0; pass < MATCH_PASSES; pass += 1) {
+      const stats = measureTone(sample, tone)
+      if (!stats) {
+        throw new Error(`${image.label} does not cover the crop.`)
+      }
+      const correction = solveToneCorrection(stats, referenceStats)
+      tone = clampTone({
+        exposure: tone.exposure + correction.exposure,
+        contrast: ((1 + tone.contrast / 100) * correction.contrast - 1) * 100,
+        temperature: tone.temperature + correction.temperature,
+        tint: tone.tint + correction.tint,
+        saturation:
+          ((1 + tone.saturation / 100) * correction.saturation - 1) * 100,
+      })
+    }
+    results[image.id] = clampTone(tone, true)
+  }
+  return results
+}
@@ -0,0 +1,98 @@
+import { getFfmpeg } from './ffmpeg.ts'
+
+// Seeking exactly to the end of a clip yields no frame, so stay just short.
+const END_MARGIN_SECONDS = 0.05
+
+/** Evenly spaces `count` timestamps across [start, end], inclusive. */
+export const spreadTimestamps = (start: number, end: number, count: number) => {
+  if (count <= 1) return [start]
+  const step = (end - start) / (count - 1)
+  return Array.from({ length: count }, (_, index) => start + step * index)
+}
+
+export const formatTimestamp = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = seconds - minutes * 60
+  return `${minutes}:${remainder.toFixed(2).padStart(5, '0')}`
+}
+
+const getInputName = (file: File) => {
+  const extension = file.name.split('.').pop()
+  return extension && extension !== file.name
+    ? `video_input.${extension.toLowerCase()}`
+    : 'video_input'
+}
+
+/**
+ * Decodes one still per timestamp through ffmpeg and returns them as PNG
+ * files named after the clip.
+ */
+export const extractVideoFrames = async (
+  file: File,
+  timestamps: number[],
+  duration: number,
+  onProgress?: (completed: number, total: number) => void,
+): Promise<File[]> => {
+  if (!timestamps.length) {
+    throw new Error('Choose at least one timestamp to extract.')
+  }
+
+  const ffmpeg = await getFfmpeg()
+  const inputName = getInputName(file)
+  const baseName = file.name.replace(/\.[^.]+$/, '')
+  const outputs: File[] = []
+
+  await ffmpeg.writeFile(inputName, new Uint8Array(await file.arrayBuffer()))
+
+  try {
+    for (let index = 0; index < timestamps.length; index += 1) {
+      const time = Math.max(
+        0,
+        Math.min(timestamps[index], duration - END_MARGIN_SECONDS),
+      )
+      const outputName = `still_${index.toString().padStart(3, '0')}.png`
+      try {
+        const exitCode = await ffmpeg.exec([
+          '-ss',
+          time.toFixed(3),
+          '-i',
+          inputName,
+          '-frames:v',
+          '1',
+          outputName,
+        ])
+        if (exitCode !== 0) {
+          throw new Error(
+            `Unable to extract a frame at ${formatTimestamp(time)}.`,
+          )
+        }
+        const data = await ffmpeg.readFile(outputName)
+        if (!(data instanceof Uint8Array) || !data.length) {
+          throw new Error(`No frame found at ${formatTimestamp(time)}.`)
+        }
+        outputs.push(
+          new File(
+            [data.slice().buffer],
+            `${baseName}-${formatTimestamp(time).replace(/[:.]/g, '-')}.png`,
+            { type: 'image/png' },
+          ),
+        )
+        onProgress?.(index + 1, timestamps.length)
+      } finally {
+        try {
+          await ffmpeg.deleteFile(outputName)
+        } catch {
+          // Ignore missing output cleanup
+        }
+      }
+    }
+  } finally {
+    try {
+      await ffmpeg.deleteFile(inputName)
+    } catch {
+      // Ignore missing input cleanup
+    }
+  }
+
+  return outputs
+}
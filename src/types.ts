@@ -8,11 +8,42 @@ export interface Point {
   y: number
 }
 
+/**
+ * Crop window shared by every frame. `x`/`y` place its centre relative to
+ * the centre of the frames, in source pixels.
+ */
+export interface CropRect extends Dimensions, Point {}
+
 export interface ImageAdjustments {
   offsetX: number
   offsetY: number
   rotation: number
   scale: number
+  /** Exposure change in stops. */
+  exposure: number
+  /** Tone settings below run from -100 to 100; 0 leaves the frame as is. */
+  contrast: number
+  /** Positive values warm the frame, negative values cool it. */
+  temperature: number
+  /** Positive values shift towards magenta, negative towards green. */
+  tint: number
+  saturation: number
+}
+
+export type ToneAdjustments = Pick<
+  ImageAdjustments,
+  'exposure' | 'contrast' | 'temperature' | 'tint' | 'saturation'
+>
+
+/** Capture details read from a photo's EXIF data. */
+export interface ImageMetadata {
+  /** Local capture time as `YYYY-MM-DDTHH:MM:SS`, without a time zone. */
+  capturedAt?: string
+  /** Camera make and model. */
+  camera?: string
+  /** Focal length in millimetres. */
+  focalLength?: number
+  focalLength35mm?: number
 }
 
 export interface LoadedImage {
@@ -22,15 +53,141 @@ export interface LoadedImage {
   fileName?: string
   naturalWidth?: number
   naturalHeight?: number
+  metadata?: ImageMetadata
   adjustments: ImageAdjustments
+  /**
+   * Features marked for alignment, in frame pixels from the top-left
+   * corner. Points at the same position in two frames' lists match.
+   */
+  controlPoints?: Point[]
   isLoaded: boolean
   error?: string
 }
 
+export type OutputSizeMode = 'scale' | 'long-edge' | 'exact'
+
+/** Export resolution, applied after cropping. */
+export interface OutputSizeSettings {
+  mode: OutputSizeMode
+  scale: number
+  longEdge: number
+  width: number
+  height: number
+  /** In exact mode, derive the height from the crop's aspect ratio. */
+  lockAspect: boolean
+  sharpen: boolean
+}
+
+/**
+ * What fills the parts of the crop a frame doesn't cover: nothing
+ * (transparent), a solid colour, the frame's edge pixels stretched outwards,
+ * mirrored copies of the frame, or a blurred edge-extend.
+ */
+export type EdgeFillMode = 'none' | 'solid' | 'extend' | 'mirror' | 'blur'
+
+export interface EdgeFillSettings {
+  mode: EdgeFillMode
+  /** Hex colour for the solid fill. */
+  color: string
+}
+
 export interface FrameRenderOptions {
-  crop: Dimensions
+  crop: CropRect
+  output?: OutputSizeSettings
+  fill?: EdgeFillSettings
 }
 
-export type ExportFormat = 'gif' | 'mp4'
+/**
+ * How the viewport shows the pinned reference against the active frame:
+ * translucent on top, their difference, alternating checker squares, a
+ * draggable split, flickering between the two, or every frame averaged
+ * together as an onion skin.
+ */
+export type CompareMode =
+  | 'overlay'
+  | 'difference'
+  | 'checkerboard'
+  | 'split'
+  | 'flicker'
+  | 'onion'
+
+/**
+ * What the viewport magnifier shows: the active frame with the reference
+ * over it, or their difference, which turns black where they line up.
+ */
+export type LoupeView = 'overlay' | 'difference'
+
+export interface LoupeSettings {
+  enabled: boolean
+  /** Screen pixels per frame pixel. */
+  zoom: number
+  view: LoupeView
+}
+
+export type ExportFormat = 'gif' | 'apng' | 'webp' | 'mp4' | 'webm'
 
 export type ExportQuality = 'low' | 'medium' | 'high'
+
+export type ExportStage = 'rendering' | 'inbetweens' | 'encoding'
+
+export interface ExportProgress {
+  stage: ExportStage
+  /** Share of the stage completed, from 0 to 1. */
+  ratio: number
+  /**
+   * Frames rendered, or frame pairs interpolated, so far and in total, while
+   * rendering or generating in-betweens.
+   */
+  completed?: number
+  total?: number
+  /** Encoded output size so far, when the encoder reports it. */
+  bytesWritten?: number
+}
+
+export type GifDithering = 'none' | 'floyd-steinberg' | 'bayer'
+
+export type PngCompression = 'fast' | 'balanced' | 'smallest'
+
+/** Still outputs built from a left and a right view. */
+export type StereoLayout =
+  | 'anaglyph'
+  | 'anaglyph-dubois'
+  | 'parallel'
+  | 'cross-eyed'
+  | 'over-under'
+
+export type StereoImageFormat = 'png' | 'jpeg'
+
+export interface StereoExportSettings {
+  layout: StereoLayout
+  format: StereoImageFormat
+}
+
+export type SequencePreset = 'forward' | 'ping-pong' | 'custom'
+
+export interface SequenceStep {
+  frameId: string
+  durationMs: number
+}
+
+/**
+ * A step as played back. Generated in-between steps keep the frame they
+ * start from and name the frame they lead to.
+ */
+export interface PlaybackStep extends SequenceStep {
+  inbetween?: { toFrameId: string; index: number }
+}
+
+export type InbetweenMode = 'crossfade' | 'flow'
+
+export interface InbetweenSettings {
+  /** Frames generated between each pair of adjacent steps; 0 turns it off. */
+  count: number
+  mode: InbetweenMode
+}
+
+export interface PlaybackSequence {
+  preset: SequencePreset
+  /** Only used by the custom preset; other presets derive steps from frames. */
+  steps: SequenceStep[]
+}